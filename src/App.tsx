@@ -1,7 +1,39 @@
 import cytoscape, { Core, ElementsDefinition } from "cytoscape";
 import { Fragment, useEffect, useMemo, useRef, useState } from "react";
-import type { GraphJson, GraphNodeData } from "./types";
-
+import { checkArchitectureRules, parseArchitectureRules } from "./architectureRules";
+import type { ArchitectureRule, RuleViolation } from "./architectureRules";
+import { computeGraphDiff, moduleEdgeKey } from "./graphDiff";
+import type { GraphDiff } from "./graphDiff";
+import { EXPORT_FORMATS, exportGraph } from "./graphExport";
+import type { ExportFormat } from "./graphExport";
+import { GRAPH_SCHEMA_VERSION, parseGraphJson } from "./graphSchema";
+import {
+  buildAdjacency,
+  buildDirectedAdjacency,
+  expandDirected,
+  expandNeighbors,
+  isEdgeKindVisible
+} from "./graphTraversal";
+import type {
+  CallGraphNodeData,
+  DiffStatus,
+  DocComment,
+  DuplicateCluster,
+  DuplicateFunction,
+  EdgeKind,
+  FeatureRecord,
+  FunctionMetrics,
+  GraphEdgeData,
+  GraphJson,
+  GraphNodeData,
+  MetricSummary,
+  ModuleComplexity,
+  SymbolParameter,
+  SymbolRecord
+} from "./types";
+
+type GraphMode = "modules" | "symbols";
+type SidebarPanel = "modules" | "features" | "types" | "duplicates";
 type LayoutMode = "concentric" | "breadthfirst" | "cose" | "circle";
 type NodeStyleMetric =
   | "none"
@@ -9,7 +41,18 @@ type NodeStyleMetric =
   | "fan-out"
   | "exports"
   | "loc"
-  | "functions";
+  | "functions"
+  | ComplexityStyleMetric
+  | "library";
+type ComplexityStyleMetric =
+  | "complexity-max"
+  | "complexity-mean"
+  | "nesting-max"
+  | "nesting-mean"
+  | "statements-max"
+  | "statements-mean"
+  | "parameters-max"
+  | "parameters-mean";
 type ViewMode =
   | "search-neighbors"
   | "search-only"
@@ -18,14 +61,8 @@ type ViewMode =
   | "selected-2"
   | "tree-outgoing"
   | "tree-incoming"
-  | "hierarchy";
-
-type EdgeKind = "import" | "reexport";
-
-interface DirectedNeighbor {
-  id: string;
-  kind: EdgeKind;
-}
+  | "hierarchy"
+  | "cycles";
 
 interface FolderTree {
   childrenByParent: Map<string, string[]>;
@@ -40,6 +77,7 @@ interface ViewportState {
 }
 
 interface NavigationState {
+  graphMode: GraphMode | null;
   nodeId: string | null;
   viewMode: ViewMode | null;
   layoutMode: LayoutMode | null;
@@ -58,12 +96,50 @@ interface NavigationState {
 const ALL_SCOPE = "__all__";
 const ROOT_SCOPE = "__root__";
 const UNRESOLVED_SCOPE = "__unresolved__";
+const LIBRARY_SCOPE_PREFIX = "library:";
+const LIBRARY_COLORS = ["#2563eb", "#ea580c", "#7c3aed", "#0d9488", "#db2777", "#ca8a04"];
+const DEFAULT_GRAPH_MODE: GraphMode = "modules";
 const DEFAULT_VIEW_MODE: ViewMode = "selected-1";
 const DEFAULT_LAYOUT_MODE: LayoutMode = "circle";
 const DEFAULT_NODE_STYLE_METRIC: NodeStyleMetric = "none";
 const FSDOC_LIBRARY_URL = "https://cad.onshape.com/FsDoc/library.html";
+// Sent by the dev server plugin in vite.config.ts when the indexer rewrites graph.json.
+const GRAPH_UPDATE_EVENT = "fs-graph:update";
+const COMPARE_PARAM = "compare";
+const DIFF_STATUS_COLORS: Record<DiffStatus, string> = {
+  added: "#059669",
+  removed: "#dc2626",
+  changed: "#d97706"
+};
+const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  dot: "DOT (Graphviz)",
+  graphml: "GraphML",
+  gexf: "GEXF (Gephi)",
+  mermaid: "Mermaid",
+  csv: "CSV (nodes + edges)"
+};
+// Which aggregate of which per-function metric each complexity style reads from `complexity`.
+const COMPLEXITY_STYLE_METRICS: Record<
+  ComplexityStyleMetric,
+  { metric: keyof FunctionMetrics; summary: keyof MetricSummary; label: string }
+> = {
+  "complexity-max": { metric: "cyclomaticComplexity", summary: "max", label: "Max complexity" },
+  "complexity-mean": { metric: "cyclomaticComplexity", summary: "mean", label: "Mean complexity" },
+  "nesting-max": { metric: "maxNesting", summary: "max", label: "Max nesting" },
+  "nesting-mean": { metric: "maxNesting", summary: "mean", label: "Mean nesting" },
+  "statements-max": { metric: "statementCount", summary: "max", label: "Max statements" },
+  "statements-mean": { metric: "statementCount", summary: "mean", label: "Mean statements" },
+  "parameters-max": { metric: "parameterCount", summary: "max", label: "Max parameters" },
+  "parameters-mean": { metric: "parameterCount", summary: "mean", label: "Mean parameters" }
+};
+const BACK_EDGE_COLOR = "#e11d48";
+const RULE_VIOLATION_COLOR = "#b91c1c";
 const MIN_ZOOM = 0.6;
 const MAX_ZOOM = 1.85;
+// Browsers block or cancel downloads fired back to back, or whose blob URL is revoked too soon.
+const DOWNLOAD_STAGGER_MS = 500;
+const DOWNLOAD_REVOKE_DELAY_MS = 10_000;
+const GRAPH_MODE_VALUES: GraphMode[] = ["modules", "symbols"];
 const VIEW_MODE_VALUES: ViewMode[] = [
   "search-neighbors",
   "search-only",
@@ -72,7 +148,8 @@ const VIEW_MODE_VALUES: ViewMode[] = [
   "selected-2",
   "tree-outgoing",
   "tree-incoming",
-  "hierarchy"
+  "hierarchy",
+  "cycles"
 ];
 const LAYOUT_MODE_VALUES: LayoutMode[] = ["concentric", "breadthfirst", "cose", "circle"];
 const NODE_STYLE_METRIC_VALUES: NodeStyleMetric[] = [
@@ -81,11 +158,14 @@ const NODE_STYLE_METRIC_VALUES: NodeStyleMetric[] = [
   "fan-out",
   "exports",
   "loc",
-  "functions"
+  "functions",
+  ...(Object.keys(COMPLEXITY_STYLE_METRICS) as ComplexityStyleMetric[]),
+  "library"
 ];
 
 function emptyGraph(): GraphJson {
   return {
+    schemaVersion: GRAPH_SCHEMA_VERSION,
     root: "",
     generatedAt: "",
     elements: {
@@ -95,6 +175,115 @@ function emptyGraph(): GraphJson {
   };
 }
 
+function isComplexityStyleMetric(metric: NodeStyleMetric): metric is ComplexityStyleMetric {
+  return metric in COMPLEXITY_STYLE_METRICS;
+}
+
+/** A single function is its own max and mean, so symbol nodes can share the module styles. */
+function toFunctionComplexity(metrics: FunctionMetrics): ModuleComplexity {
+  const summarize = (value: number): MetricSummary => ({ max: value, mean: value });
+  return {
+    cyclomaticComplexity: summarize(metrics.cyclomaticComplexity),
+    maxNesting: summarize(metrics.maxNesting),
+    statementCount: summarize(metrics.statementCount),
+    parameterCount: summarize(metrics.parameterCount)
+  };
+}
+
+function buildSymbolGraph(graph: GraphJson): GraphJson {
+  const moduleById = new Map(graph.elements.nodes.map((node) => [node.data.id, node.data]));
+  const callGraph = graph.callGraph ?? { nodes: [], edges: [] };
+
+  return {
+    schemaVersion: graph.schemaVersion,
+    root: graph.root,
+    libraries: graph.libraries,
+    generatedAt: graph.generatedAt,
+    elements: {
+      nodes: callGraph.nodes.map((node) => {
+        const moduleNode = moduleById.get(node.data.moduleId);
+        return {
+          data: {
+            id: node.data.id,
+            label: node.data.label,
+            filePath: moduleNode?.filePath ?? node.data.moduleId,
+            modulePath: moduleNode?.modulePath ?? node.data.moduleId,
+            library: moduleNode?.library,
+            sourceUrl: moduleNode?.sourceUrl,
+            loc: node.data.endLine - node.data.startLine + 1,
+            functionCount: 0,
+            complexity: node.data.metrics ? toFunctionComplexity(node.data.metrics) : undefined,
+            isGenerated: moduleNode?.isGenerated,
+            imports: [],
+            reexports: [],
+            importTargets: [],
+            reexportTargets: [],
+            importCount: 0,
+            reexportCount: 0,
+            exports: [],
+            exportCount: 0
+          }
+        };
+      }),
+      edges: callGraph.edges
+    }
+  };
+}
+
+/**
+ * Overlays a baseline onto the current module graph: nodes and edges only in the baseline are
+ * added back as "removed", and modules whose exports or outgoing edges changed are "changed".
+ */
+function buildDiffGraph(graph: GraphJson, baseline: GraphJson, diff: GraphDiff): GraphJson {
+  const addedModuleIds = new Set(diff.addedModules.map((module) => module.id));
+  const addedEdgeKeys = new Set(diff.addedEdges.map(moduleEdgeKey));
+  const removedEdgeKeys = new Set(diff.removedEdges.map(moduleEdgeKey));
+  const changedModuleIds = new Set(
+    diff.changedModules
+      .filter((change) => change.exportsAdded.length > 0 || change.exportsRemoved.length > 0)
+      .map((change) => change.id)
+  );
+  for (const edge of [...diff.addedEdges, ...diff.removedEdges]) {
+    changedModuleIds.add(edge.source);
+  }
+
+  const currentIds = new Set(graph.elements.nodes.map((node) => node.data.id));
+  const nodes = graph.elements.nodes.map((node) => {
+    const diffStatus: DiffStatus | undefined = addedModuleIds.has(node.data.id)
+      ? "added"
+      : changedModuleIds.has(node.data.id)
+        ? "changed"
+        : undefined;
+    return diffStatus ? { data: { ...node.data, diffStatus } } : node;
+  });
+  // Cycle markers on baseline-only elements refer to the baseline's cycles, not the current ones.
+  for (const node of baseline.elements.nodes) {
+    if (!currentIds.has(node.data.id)) {
+      nodes.push({ data: { ...node.data, sccId: undefined, diffStatus: "removed" } });
+    }
+  }
+
+  const edges = graph.elements.edges.map((edge) =>
+    addedEdgeKeys.has(moduleEdgeKey(edge.data))
+      ? { data: { ...edge.data, diffStatus: "added" as const } }
+      : edge
+  );
+  for (const edge of baseline.elements.edges) {
+    if (removedEdgeKeys.has(moduleEdgeKey(edge.data))) {
+      edges.push({
+        data: {
+          ...edge.data,
+          id: `removed:${edge.data.id}`,
+          isBackEdge: undefined,
+          diffStatus: "removed"
+        }
+      });
+    }
+  }
+
+  return { ...graph, elements: { nodes, edges } };
+}
+
 function getScopeKey(node: GraphNodeData): string {
   if (node.isVirtual || node.filePath === "(unresolved module)") {
     return UNRESOLVED_SCOPE;
@@ -109,6 +298,14 @@ function getScopeKey(node: GraphNodeData): string {
   return normalized.slice(0, slash);
 }
 
+function isNodeInScope(node: GraphNodeData, scope: string): boolean {
+  if (scope.startsWith(LIBRARY_SCOPE_PREFIX)) {
+    return node.library === scope.slice(LIBRARY_SCOPE_PREFIX.length);
+  }
+
+  return getScopeKey(node) === scope;
+}
+
 function getScopeLabel(key: string): string {
   if (key === ROOT_SCOPE) {
     return "(root files)";
@@ -148,92 +345,78 @@ function getDocumentationUrl(node: GraphNodeData): string | null {
   return null;
 }
 
-function expandNeighbors(
-  seeds: Set<string>,
-  maxDepth: number,
-  adjacency: Map<string, Set<string>>,
-  allowed: Set<string>
-): Set<string> {
-  const visited = new Set<string>();
-  const queue: Array<{ id: string; depth: number }> = [];
-
-  for (const seed of seeds) {
-    if (!allowed.has(seed)) {
-      continue;
-    }
+function formatSymbolParameters(parameters: SymbolParameter[]): string {
+  return parameters
+    .map((parameter) => (parameter.type ? `${parameter.name} is ${parameter.type}` : parameter.name))
+    .join(", ");
+}
 
-    visited.add(seed);
-    queue.push({ id: seed, depth: 0 });
+function formatSymbolSignature(symbol: SymbolRecord): string {
+  if (symbol.kind === "type") {
+    return symbol.typecheck ? `${symbol.name} typecheck ${symbol.typecheck}` : symbol.name;
   }
 
-  while (queue.length > 0) {
-    const current = queue.shift();
-    if (!current || current.depth >= maxDepth) {
-      continue;
-    }
-
-    const neighbors = adjacency.get(current.id);
-    if (!neighbors) {
-      continue;
-    }
-
-    for (const neighbor of neighbors) {
-      if (!allowed.has(neighbor) || visited.has(neighbor)) {
-        continue;
-      }
+  if (symbol.kind === "enum") {
+    return symbol.name;
+  }
 
-      visited.add(neighbor);
-      queue.push({ id: neighbor, depth: current.depth + 1 });
-    }
+  if (symbol.parameters) {
+    const returns = symbol.returnType ? ` returns ${symbol.returnType}` : "";
+    return `${symbol.name}(${formatSymbolParameters(symbol.parameters)})${returns}`;
   }
 
-  return visited;
+  return symbol.valueType ? `${symbol.name} is ${symbol.valueType}` : symbol.name;
 }
 
-function expandDirected(
-  seeds: Set<string>,
-  maxDepth: number,
-  adjacency: Map<string, DirectedNeighbor[]>,
-  allowed: Set<string>,
-  includeImportEdges: boolean,
-  includeReexportEdges: boolean
-): Set<string> {
-  const visited = new Set<string>();
-  const queue: Array<{ id: string; depth: number }> = [];
-
-  for (const seed of seeds) {
-    if (!allowed.has(seed)) {
-      continue;
-    }
-
-    visited.add(seed);
-    queue.push({ id: seed, depth: 0 });
-  }
+function downloadBlob(fileName: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_REVOKE_DELAY_MS);
+}
 
-  while (queue.length > 0) {
-    const current = queue.shift();
-    if (!current || current.depth >= maxDepth) {
-      continue;
-    }
+function formatLineRange(startLine: number, endLine: number): string {
+  return startLine === endLine ? `L${startLine}` : `L${startLine}-${endLine}`;
+}
 
-    const neighbors = adjacency.get(current.id) ?? [];
-    for (const neighbor of neighbors) {
-      const kindAllowed =
-        neighbor.kind === "import" ? includeImportEdges : includeReexportEdges;
-      if (!kindAllowed) {
-        continue;
-      }
+function formatFunctionMetrics(metrics: FunctionMetrics): string {
+  return (
+    `complexity ${metrics.cyclomaticComplexity}, nesting ${metrics.maxNesting}, ` +
+    `${metrics.statementCount} statements, ${metrics.parameterCount} parameters`
+  );
+}
 
-      if (!allowed.has(neighbor.id) || visited.has(neighbor.id)) {
-        continue;
-      }
+function formatModuleComplexity(complexity: ModuleComplexity): string {
+  const format = ({ max, mean }: MetricSummary) => `${max} max / ${mean} mean`;
+  return (
+    `complexity ${format(complexity.cyclomaticComplexity)}, ` +
+    `nesting ${format(complexity.maxNesting)}, ` +
+    `statements ${format(complexity.statementCount)}, ` +
+    `parameters ${format(complexity.parameterCount)}`
+  );
+}
 
-      visited.add(neighbor.id);
-      queue.push({ id: neighbor.id, depth: current.depth + 1 });
-    }
+function formatImportMetadata(edge: GraphEdgeData): string {
+  const parts: string[] = [];
+  if (edge.version) {
+    parts.push(`version ${edge.version}`);
+  }
+  if (edge.line !== undefined) {
+    parts.push(`L${edge.line}`);
   }
+  return parts.join(" · ");
+}
+
+function formatSignedDelta(value: number): string {
+  return value > 0 ? `+${value}` : String(value);
+}
 
-  return visited;
+function formatReexportPath(via: string[]): string {
+  return via.length === 0 ? "direct import" : `via ${via.join(" → ")}`;
 }
 
 function getLayoutOptions(layoutMode: LayoutMode): cytoscape.LayoutOptions {
@@ -373,6 +556,14 @@ function chooseDefaultNodeId(graph: GraphJson): string | null {
     })[0]?.[0] ?? null;
 }
 
+function parseGraphMode(value: string | null): GraphMode | null {
+  if (value && GRAPH_MODE_VALUES.includes(value as GraphMode)) {
+    return value as GraphMode;
+  }
+
+  return null;
+}
+
 function parseViewMode(value: string | null): ViewMode | null {
   if (value && VIEW_MODE_VALUES.includes(value as ViewMode)) {
     return value as ViewMode;
@@ -496,6 +687,7 @@ function applyViewportState(cy: Core, viewport: ViewportState): void {
 }
 
 function getNavigationFromHistoryState(stateValue: unknown): {
+  graphMode: GraphMode | null;
   nodeId: string | null;
   viewMode: ViewMode | null;
   layoutMode: LayoutMode | null;
@@ -516,6 +708,9 @@ function getNavigationFromHistoryState(stateValue: unknown): {
       : {};
 
   return {
+    graphMode: parseGraphMode(
+      typeof record.graphMode === "string" ? record.graphMode : null
+    ),
     nodeId: typeof record.nodeId === "string" ? record.nodeId : null,
     viewMode: parseViewMode(
       typeof record.viewMode === "string" ? record.viewMode : null
@@ -548,6 +743,7 @@ function getNavigationFromUrl(searchValue: string): NavigationState {
   const params = new URLSearchParams(searchValue);
 
   return {
+    graphMode: parseGraphMode(params.get("graph")),
     nodeId: params.get("node"),
     viewMode: parseViewMode(params.get("view")),
     layoutMode: parseLayoutMode(params.get("layout")),
@@ -569,6 +765,7 @@ function formatViewportValue(value: number, decimals: number): string {
 }
 
 function buildUrlFromNavigationState(state: {
+  graphMode: GraphMode;
   nodeId: string | null;
   viewMode: ViewMode;
   layoutMode: LayoutMode;
@@ -585,6 +782,9 @@ function buildUrlFromNavigationState(state: {
 }): string {
   const params = new URLSearchParams();
 
+  if (state.graphMode !== DEFAULT_GRAPH_MODE) {
+    params.set("graph", state.graphMode);
+  }
   if (state.nodeId) {
     params.set("node", state.nodeId);
   }
@@ -627,6 +827,15 @@ function buildUrlFromNavigationState(state: {
     params.set("py", formatViewportValue(state.viewport.panY, 1));
   }
 
+  // The comparison baseline is loaded once at startup, so carry it along rather than track it.
+  const compare =
+    typeof window === "undefined"
+      ? null
+      : new URLSearchParams(window.location.search).get(COMPARE_PARAM);
+  if (compare) {
+    params.set(COMPARE_PARAM, compare);
+  }
+
   const query = params.toString();
   const queryPart = query ? `?${query}` : "";
   if (typeof window === "undefined") {
@@ -758,7 +967,13 @@ function applyAdaptiveLabelStyling(
 }
 
 export default function App() {
-  const [graph, setGraph] = useState<GraphJson>(emptyGraph());
+  const [loadedGraph, setLoadedGraph] = useState<GraphJson>(emptyGraph());
+  const [baselineGraph, setBaselineGraph] = useState<GraphJson | null>(null);
+  const [baselineLabel, setBaselineLabel] = useState<string | null>(null);
+  const [showChangedOnly, setShowChangedOnly] = useState(false);
+  const [architectureRules, setArchitectureRules] = useState<ArchitectureRule[] | null>(null);
+  const [rulesLabel, setRulesLabel] = useState<string | null>(null);
+  const [graphMode, setGraphMode] = useState<GraphMode>(DEFAULT_GRAPH_MODE);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [search, setSearch] = useState("");
@@ -772,10 +987,21 @@ export default function App() {
   const [showReexportEdges, setShowReexportEdges] = useState(true);
   const [nodeStyleMetric, setNodeStyleMetric] =
     useState<NodeStyleMetric>(DEFAULT_NODE_STYLE_METRIC);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("graphml");
   const [dimGeneratedNodes, setDimGeneratedNodes] = useState(false);
   const [zoomPercent, setZoomPercent] = useState(100);
+  const [sidebarPanel, setSidebarPanel] = useState<SidebarPanel>("modules");
+  const [expandedSidebarId, setExpandedSidebarId] = useState<string | null>(null);
+  const [hoveredEdge, setHoveredEdge] = useState<{
+    data: GraphEdgeData;
+    x: number;
+    y: number;
+  } | null>(null);
   const [treeDepth, setTreeDepth] = useState(3);
   const [hierarchyFolderPrefix, setHierarchyFolderPrefix] = useState("");
+  // A module of the focused cycle rather than its SCC id: ids are renumbered whenever the graph
+  // changes (live reload, baseline comparison), while the module still finds its cycle.
+  const [focusedCycleModuleId, setFocusedCycleModuleId] = useState<string | null>(null);
   const [expandedFolders, setExpandedFolders] = useState<string[]>([]);
 
   const containerRef = useRef<HTMLDivElement | null>(null);
@@ -789,6 +1015,101 @@ export default function App() {
   const viewModeRef = useRef<ViewMode>(DEFAULT_VIEW_MODE);
   const layoutModeRef = useRef<LayoutMode>(DEFAULT_LAYOUT_MODE);
 
+  const graphDiff = useMemo(
+    () => (baselineGraph ? computeGraphDiff(baselineGraph, loadedGraph) : null),
+    [baselineGraph, loadedGraph]
+  );
+  const moduleGraph = useMemo(
+    () =>
+      baselineGraph && graphDiff
+        ? buildDiffGraph(loadedGraph, baselineGraph, graphDiff)
+        : loadedGraph,
+    [baselineGraph, graphDiff, loadedGraph]
+  );
+  const moduleChangeById = useMemo(
+    () => new Map((graphDiff?.changedModules ?? []).map((change) => [change.id, change])),
+    [graphDiff]
+  );
+  const diffStatusCounts = useMemo(() => {
+    const counts: Record<DiffStatus, number> = { added: 0, removed: 0, changed: 0 };
+    for (const node of moduleGraph.elements.nodes) {
+      if (node.data.diffStatus) {
+        counts[node.data.diffStatus] += 1;
+      }
+    }
+    return counts;
+  }, [moduleGraph]);
+  const ruleViolations = useMemo(
+    () => (architectureRules ? checkArchitectureRules(loadedGraph, architectureRules) : []),
+    [architectureRules, loadedGraph]
+  );
+  const violatingEdgeIds = useMemo(
+    () => new Set(ruleViolations.flatMap((violation) => violation.edgeId ?? [])),
+    [ruleViolations]
+  );
+  const violationsByModule = useMemo(() => {
+    const map = new Map<string, RuleViolation[]>();
+    for (const violation of ruleViolations) {
+      map.set(violation.moduleId, [...(map.get(violation.moduleId) ?? []), violation]);
+    }
+    return map;
+  }, [ruleViolations]);
+  const symbolGraph = useMemo(() => buildSymbolGraph(loadedGraph), [loadedGraph]);
+  const graph = graphMode === "symbols" ? symbolGraph : moduleGraph;
+  const hasCallGraph = Boolean(loadedGraph.callGraph);
+  const features = useMemo(() => loadedGraph.features ?? [], [loadedGraph]);
+
+  const duplicates = useMemo(() => loadedGraph.duplicates ?? [], [loadedGraph]);
+
+  // Overloads of one symbol are fingerprinted separately and can land in different clusters.
+  const duplicateClustersBySymbol = useMemo(() => {
+    const map = new Map<string, DuplicateCluster[]>();
+    for (const cluster of duplicates) {
+      for (const member of cluster.members) {
+        const clusters = map.get(member.symbolId) ?? [];
+        if (!clusters.includes(cluster)) {
+          clusters.push(cluster);
+        }
+        map.set(member.symbolId, clusters);
+      }
+    }
+    return map;
+  }, [duplicates]);
+
+  const featuresByModule = useMemo(() => {
+    const map = new Map<string, FeatureRecord[]>();
+    for (const feature of features) {
+      const list = map.get(feature.moduleId) ?? [];
+      list.push(feature);
+      map.set(feature.moduleId, list);
+    }
+    return map;
+  }, [features]);
+
+  const callGraphNodeById = useMemo(() => {
+    const map = new Map<string, CallGraphNodeData>();
+    for (const node of loadedGraph.callGraph?.nodes ?? []) {
+      map.set(node.data.id, node.data);
+    }
+    return map;
+  }, [loadedGraph]);
+
+  const moduleNodeById = useMemo(() => {
+    const map = new Map<string, GraphNodeData>();
+    for (const node of loadedGraph.elements.nodes) {
+      map.set(node.data.id, node.data);
+    }
+    return map;
+  }, [loadedGraph]);
+
+  const moduleEdgeByKey = useMemo(() => {
+    const map = new Map<string, GraphEdgeData>();
+    for (const edge of loadedGraph.elements.edges) {
+      map.set(moduleEdgeKey(edge.data), edge.data);
+    }
+    return map;
+  }, [loadedGraph]);
+
   const nodeById = useMemo(() => {
     const map = new Map<string, GraphNodeData>();
     for (const node of graph.elements.nodes) {
@@ -798,7 +1119,6 @@ export default function App() {
   }, [graph]);
 
   const nodeOrder = useMemo(() => graph.elements.nodes.map((node) => node.data.id), [graph]);
-  const defaultNodeId = useMemo(() => chooseDefaultNodeId(graph), [graph]);
 
   const allNodeIds = useMemo(() => new Set(nodeOrder), [nodeOrder]);
 
@@ -816,6 +1136,18 @@ export default function App() {
       }
     ];
 
+    if ((graph.libraries?.length ?? 0) > 1) {
+      for (const library of graph.libraries ?? []) {
+        const count = graph.elements.nodes.filter(
+          (node) => node.data.library === library.label
+        ).length;
+        options.push({
+          value: `${LIBRARY_SCOPE_PREFIX}${library.label}`,
+          label: `Library: ${library.label} (${count})`
+        });
+      }
+    }
+
     const keys = [...counts.keys()].sort((a, b) => a.localeCompare(b));
     for (const key of keys) {
       options.push({
@@ -827,77 +1159,71 @@ export default function App() {
     return options;
   }, [graph]);
 
-  useEffect(() => {
-    const exists = scopeOptions.some((option) => option.value === scope);
-    if (!exists) {
-      setScope(ALL_SCOPE);
-    }
-  }, [scopeOptions, scope]);
-
-  const adjacency = useMemo(() => {
-    const map = new Map<string, Set<string>>();
-
-    for (const nodeId of nodeOrder) {
-      map.set(nodeId, new Set<string>());
-    }
-
-    for (const edge of graph.elements.edges) {
-      const source = edge.data.source;
-      const target = edge.data.target;
-
-      if (!map.has(source)) {
-        map.set(source, new Set<string>());
-      }
-      if (!map.has(target)) {
-        map.set(target, new Set<string>());
-      }
-
-      map.get(source)?.add(target);
-      map.get(target)?.add(source);
-    }
-
+  const libraryColorByLabel = useMemo(() => {
+    const map = new Map<string, string>();
+    (loadedGraph.libraries ?? []).forEach((library, index) => {
+      map.set(library.label, LIBRARY_COLORS[index % LIBRARY_COLORS.length]);
+    });
     return map;
-  }, [graph, nodeOrder]);
-
-  const outgoingAdjacency = useMemo(() => {
-    const map = new Map<string, DirectedNeighbor[]>();
+  }, [loadedGraph]);
+  const hasMultipleLibraries = libraryColorByLabel.size > 1;
 
-    for (const nodeId of nodeOrder) {
-      map.set(nodeId, []);
-    }
-
-    for (const edge of graph.elements.edges) {
-      const source = edge.data.source;
-      const target = edge.data.target;
-      const kind = edge.data.kind;
+  // Cross-library dependencies: how many modules of each library are imported from another one.
+  const libraryDependencies = useMemo(() => {
+    const moduleLibrary = new Map(
+      loadedGraph.elements.nodes.map((node) => [node.data.id, node.data.library])
+    );
+    const targetsByPair = new Map<string, Set<string>>();
+    for (const edge of loadedGraph.elements.edges) {
+      const from = moduleLibrary.get(edge.data.source);
+      const to = moduleLibrary.get(edge.data.target);
+      if (!from || !to || from === to) {
+        continue;
+      }
 
-      const current = map.get(source) ?? [];
-      current.push({ id: target, kind });
-      map.set(source, current);
+      const key = `${from}\u0000${to}`;
+      const targets = targetsByPair.get(key) ?? new Set<string>();
+      targets.add(edge.data.target);
+      targetsByPair.set(key, targets);
     }
 
-    return map;
-  }, [graph, nodeOrder]);
-
-  const incomingAdjacency = useMemo(() => {
-    const map = new Map<string, DirectedNeighbor[]>();
+    return [...targetsByPair].map(([key, targets]) => {
+      const [from, to] = key.split("\u0000");
+      return { from, to, moduleCount: targets.size };
+    });
+  }, [loadedGraph]);
 
-    for (const nodeId of nodeOrder) {
-      map.set(nodeId, []);
+  useEffect(() => {
+    const exists = scopeOptions.some((option) => option.value === scope);
+    if (!exists) {
+      setScope(ALL_SCOPE);
     }
+  }, [scopeOptions, scope]);
 
-    for (const edge of graph.elements.edges) {
-      const source = edge.data.source;
-      const target = edge.data.target;
-      const kind = edge.data.kind;
+  const adjacency = useMemo(
+    () => buildAdjacency(nodeOrder, graph.elements.edges.map((edge) => edge.data)),
+    [graph, nodeOrder]
+  );
 
-      const current = map.get(target) ?? [];
-      current.push({ id: source, kind });
-      map.set(target, current);
-    }
+  const outgoingAdjacency = useMemo(
+    () =>
+      buildDirectedAdjacency(
+        nodeOrder,
+        graph.elements.edges.map((edge) => edge.data),
+        "outgoing"
+      ),
+    [graph, nodeOrder]
+  );
 
-    return map;
-  }, [graph, nodeOrder]);
+  const incomingAdjacency = useMemo(
+    () =>
+      buildDirectedAdjacency(
+        nodeOrder,
+        graph.elements.edges.map((edge) => edge.data),
+        "incoming"
+      ),
+    [graph, nodeOrder]
+  );
 
   const fanInCounts = useMemo(() => {
     const counts = new Map<string, number>();
@@ -925,22 +1251,77 @@ export default function App() {
     return counts;
   }, [graph, nodeOrder]);
 
+  const changedNeighborhoodIds = useMemo(() => {
+    const changed = new Set(
+      graph.elements.nodes.filter((node) => node.data.diffStatus).map((node) => node.data.id)
+    );
+    return expandNeighbors(changed, 1, adjacency, allNodeIds);
+  }, [graph, adjacency, allNodeIds]);
+
   const scopedNodeIds = useMemo(() => {
-    if (scope === ALL_SCOPE) {
+    const changedOnly = showChangedOnly && graphDiff !== null && graphMode === "modules";
+    if (scope === ALL_SCOPE && !changedOnly) {
       return new Set(allNodeIds);
     }
 
     const out = new Set<string>();
     for (const node of graph.elements.nodes) {
-      if (getScopeKey(node.data) === scope) {
+      const inScope = scope === ALL_SCOPE || isNodeInScope(node.data, scope);
+      if (inScope && (!changedOnly || changedNeighborhoodIds.has(node.data.id))) {
         out.add(node.data.id);
       }
     }
     return out;
-  }, [graph, scope, allNodeIds]);
+  }, [graph, graphMode, scope, allNodeIds, showChangedOnly, graphDiff, changedNeighborhoodIds]);
 
   const searchTerm = search.trim().toLowerCase();
 
+  const typeEntries = useMemo(
+    () =>
+      loadedGraph.elements.nodes.flatMap((node) =>
+        (node.data.symbols ?? [])
+          .filter((symbol) => symbol.kind === "type" || symbol.kind === "enum")
+          .map((symbol) => ({ id: `${node.data.id}#${symbol.name}`, node: node.data, symbol }))
+      ),
+    [loadedGraph]
+  );
+
+  const sidebarTypes = useMemo(() => {
+    const matches = typeEntries.filter(
+      (entry) =>
+        !searchTerm ||
+        [entry.symbol.name, entry.node.id, entry.symbol.typecheck ?? ""].some((value) =>
+          value.toLowerCase().includes(searchTerm)
+        )
+    );
+    return matches.sort((a, b) => a.symbol.name.localeCompare(b.symbol.name));
+  }, [searchTerm, typeEntries]);
+
+  const sidebarFeatures = useMemo(() => {
+    const matches = features.filter((feature) => {
+      if (!searchTerm) {
+        return true;
+      }
+
+      return [feature.featureTypeName ?? "", feature.name, feature.moduleId].some((value) =>
+        value.toLowerCase().includes(searchTerm)
+      );
+    });
+    return matches.sort((a, b) =>
+      (a.featureTypeName ?? a.name).localeCompare(b.featureTypeName ?? b.name)
+    );
+  }, [features, searchTerm]);
+
+  const sidebarDuplicates = useMemo(
+    () =>
+      duplicates.filter(
+        (cluster) =>
+          !searchTerm ||
+          cluster.members.some((member) => member.symbolId.toLowerCase().includes(searchTerm))
+      ),
+    [duplicates, searchTerm]
+  );
+
   const searchMatchedIds = useMemo(() => {
     const out = new Set<string>();
     if (!searchTerm) {
@@ -1008,6 +1389,26 @@ export default function App() {
     return out;
   }, [hierarchyFolderPrefix, scopedNodeIds]);
 
+  const cycleComponents = useMemo(() => {
+    const membersBySccId = new Map<number, string[]>();
+    for (const node of graph.elements.nodes) {
+      const { id, sccId } = node.data;
+      if (sccId !== undefined) {
+        membersBySccId.set(sccId, [...(membersBySccId.get(sccId) ?? []), id]);
+      }
+    }
+
+    return [...membersBySccId]
+      .sort(([a], [b]) => a - b)
+      .map(([sccId, members]) => ({ sccId, members }));
+  }, [graph]);
+  // Null (all cycles) once the focused module is no longer part of any cycle.
+  const focusedSccId =
+    focusedCycleModuleId === null
+      ? null
+      : cycleComponents.find((component) => component.members.includes(focusedCycleModuleId))
+          ?.sccId ?? null;
+
   const visibleNodeIds = useMemo(() => {
     const allowed = new Set(scopedNodeIds);
 
@@ -1054,9 +1455,17 @@ export default function App() {
           visible = expandNeighbors(scopedSeeds, 1, adjacency, hierarchyScopedNodeIds);
         }
       }
+    } else if (viewMode === "cycles") {
+      // An empty result is meaningful here (no cycles), so it skips the fallback below.
+      visible = new Set(
+        cycleComponents
+          .filter((component) => focusedSccId === null || component.sccId === focusedSccId)
+          .flatMap((component) => component.members)
+          .filter((id) => allowed.has(id))
+      );
     }
 
-    if (visible.size === 0) {
+    if (visible.size === 0 && viewMode !== "cycles") {
       visible =
         viewMode === "hierarchy"
           ? new Set(hierarchyScopedNodeIds)
@@ -1077,6 +1486,8 @@ export default function App() {
   }, [
     adjacency,
     allNodeIds,
+    cycleComponents,
+    focusedSccId,
     hierarchyScopedNodeIds,
     incomingAdjacency,
     outgoingAdjacency,
@@ -1113,8 +1524,7 @@ export default function App() {
     for (const edge of graph.elements.edges) {
       const sourceVisible = visibleNodeIds.has(edge.data.source);
       const targetVisible = visibleNodeIds.has(edge.data.target);
-      const kindVisible =
-        edge.data.kind === "import" ? showImportEdges : showReexportEdges;
+      const kindVisible = isEdgeKindVisible(edge.data.kind, showImportEdges, showReexportEdges);
       if (sourceVisible && targetVisible && kindVisible) {
         count += 1;
       }
@@ -1143,6 +1553,10 @@ export default function App() {
       if (nodeStyleMetric === "functions") {
         return node.functionCount;
       }
+      if (isComplexityStyleMetric(nodeStyleMetric)) {
+        const { metric, summary } = COMPLEXITY_STYLE_METRICS[nodeStyleMetric];
+        return node.complexity?.[metric][summary] ?? 0;
+      }
 
       return 0;
     };
@@ -1165,20 +1579,23 @@ export default function App() {
   }, [graph, nodeStyleMetric, fanInCounts, fanOutCounts, visibleNodeIds]);
 
   const nodeStyleLegend = useMemo(() => {
-    const labelByMetric: Record<NodeStyleMetric, string> = {
+    const labelByMetric: Record<Exclude<NodeStyleMetric, ComplexityStyleMetric>, string> = {
       none: "None",
       "fan-in": "Fan-in",
       "fan-out": "Fan-out",
       exports: "Exports",
       loc: "LOC",
-      functions: "Functions"
+      functions: "Functions",
+      library: "Library"
     };
 
     const min = nodeStyleValues.min;
     const max = nodeStyleValues.max;
     const mid = Number(((min + max) / 2).toFixed(1));
     return {
-      label: labelByMetric[nodeStyleMetric],
+      label: isComplexityStyleMetric(nodeStyleMetric)
+        ? COMPLEXITY_STYLE_METRICS[nodeStyleMetric].label
+        : labelByMetric[nodeStyleMetric],
       min,
       mid,
       max
@@ -1194,6 +1611,64 @@ export default function App() {
       toModuleFileName(selectedNode.filePath) ??
       selectedNode.label
     : null;
+  const selectedNodeDuplicates = selectedNode
+    ? duplicates.flatMap((cluster) =>
+        cluster.members
+          .filter((member) => member.moduleId === selectedNode.id)
+          .map((member) => ({ member, cluster }))
+      )
+    : [];
+  const graphTitleNoun = graphMode === "symbols" ? "Symbols" : "Modules";
+  const selectedCallNode =
+    graphMode === "symbols" && selectedId ? callGraphNodeById.get(selectedId) ?? null : null;
+  const selectedCallNodeSymbols = selectedCallNode
+    ? moduleNodeById
+        .get(selectedCallNode.moduleId)
+        ?.symbols?.filter((symbol) => symbol.name === selectedCallNode.name) ?? []
+    : [];
+  const selectedCallNodeDuplicates = selectedCallNode
+    ? duplicateClustersBySymbol.get(selectedCallNode.id) ?? []
+    : [];
+  const selectedCallEdges = useMemo(() => {
+    const callers: GraphJson["elements"]["edges"] = [];
+    const callees: GraphJson["elements"]["edges"] = [];
+    if (!selectedCallNode) {
+      return { callers, callees };
+    }
+
+    for (const edge of graph.elements.edges) {
+      if (edge.data.target === selectedCallNode.id) {
+        callers.push(edge);
+      }
+      if (edge.data.source === selectedCallNode.id) {
+        callees.push(edge);
+      }
+    }
+
+    callers.sort((a, b) => a.data.source.localeCompare(b.data.source));
+    callees.sort((a, b) => a.data.target.localeCompare(b.data.target));
+    return { callers, callees };
+  }, [graph, selectedCallNode]);
+  const selectedSymbolRecords =
+    selectedNode && selectedExportSymbol
+      ? selectedNode.symbols?.filter((symbol) => symbol.name === selectedExportSymbol) ?? []
+      : [];
+  // Types and enums are never overloaded, so the first record describes them.
+  const selectedTypeRecord =
+    selectedSymbolRecords[0]?.kind === "type" || selectedSymbolRecords[0]?.kind === "enum"
+      ? selectedSymbolRecords[0]
+      : null;
+  const symbolOwnersByName = useMemo(() => {
+    const map = new Map<string, string>();
+    for (const node of graph.elements.nodes) {
+      for (const symbol of node.data.exports) {
+        if (!map.has(symbol)) {
+          map.set(symbol, node.data.id);
+        }
+      }
+    }
+    return map;
+  }, [graph]);
   const selectedSymbolUsers = useMemo(() => {
     if (!selectedNode || !selectedExportSymbol) {
       return [];
@@ -1202,6 +1677,24 @@ export default function App() {
     const users = selectedNode.symbolUsers?.[selectedExportSymbol] ?? [];
     return [...users].sort((a, b) => a.localeCompare(b));
   }, [selectedNode, selectedExportSymbol]);
+  const selectedVisibleTo = useMemo(
+    () =>
+      Object.entries(selectedNode?.visibleTo ?? {}).sort((a, b) => a[0].localeCompare(b[0])),
+    [selectedNode]
+  );
+  const selectedImportVersions = useMemo(() => {
+    if (!selectedNode) {
+      return [];
+    }
+
+    const counts = new Map<string, number>();
+    for (const edge of loadedGraph.elements.edges) {
+      if (edge.data.target === selectedNode.id && edge.data.version) {
+        counts.set(edge.data.version, (counts.get(edge.data.version) ?? 0) + 1);
+      }
+    }
+    return [...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+  }, [loadedGraph, selectedNode]);
 
   useEffect(() => {
     viewModeRef.current = viewMode;
@@ -1247,6 +1740,51 @@ export default function App() {
     setSelectedId(nodeId);
   }
 
+  function updateGraphMode(nextMode: GraphMode): void {
+    if (nextMode === graphMode) {
+      return;
+    }
+
+    const nextGraph = nextMode === "symbols" ? symbolGraph : moduleGraph;
+    let nextNodeId: string | null = null;
+
+    if (selectedId && nextMode === "symbols") {
+      nextNodeId = chooseDefaultNodeId({
+        ...nextGraph,
+        elements: {
+          nodes: nextGraph.elements.nodes.filter(
+            (node) => callGraphNodeById.get(node.data.id)?.moduleId === selectedId
+          ),
+          edges: nextGraph.elements.edges
+        }
+      });
+    } else if (selectedId) {
+      nextNodeId = callGraphNodeById.get(selectedId)?.moduleId ?? null;
+    }
+
+    pendingViewportRestoreRef.current = null;
+    setSelectedExportSymbol(null);
+    setGraphMode(nextMode);
+    updateSelectedNode(nextNodeId ?? chooseDefaultNodeId(nextGraph), "push", false, true);
+  }
+
+  function focusSymbol(moduleId: string, name: string): void {
+    const symbolId = `${moduleId}#${name}`;
+    if (!callGraphNodeById.has(symbolId)) {
+      return;
+    }
+
+    pendingViewportRestoreRef.current = null;
+    setGraphMode("symbols");
+    updateSelectedNode(symbolId, "push", false, true);
+  }
+
+  function focusModule(moduleId: string): void {
+    pendingViewportRestoreRef.current = null;
+    setGraphMode("modules");
+    updateSelectedNode(moduleId, "push", false, true);
+  }
+
   function updateViewMode(
     nextMode: ViewMode,
     historyAction: "replace" | "none" = "replace"
@@ -1286,6 +1824,7 @@ export default function App() {
     url.searchParams.set("py", formatViewportValue(viewport.panY, 1));
     const nextState: Record<string, unknown> = {
       ...currentState,
+      graphMode: urlNavigation.graphMode ?? currentNavigation.graphMode ?? graphMode,
       nodeId: urlNavigation.nodeId ?? currentNavigation.nodeId ?? selectedId,
       viewMode:
         urlNavigation.viewMode ?? currentNavigation.viewMode ?? viewModeRef.current,
@@ -1447,12 +1986,13 @@ export default function App() {
           throw new Error(`Failed to load graph.json (${response.status})`);
         }
 
-        const data = (await response.json()) as GraphJson;
-        setGraph(data);
+        const data = parseGraphJson(await response.json());
+        setLoadedGraph(data);
         const urlNavigation =
           typeof window !== "undefined"
             ? getNavigationFromUrl(window.location.search)
             : {
+                graphMode: null,
                 nodeId: null,
                 viewMode: null,
                 layoutMode: null,
@@ -1468,6 +2008,10 @@ export default function App() {
                 viewport: null
               };
 
+        const initialGraphMode =
+          urlNavigation.graphMode === "symbols" && data.callGraph ? "symbols" : DEFAULT_GRAPH_MODE;
+        const initialGraph = initialGraphMode === "symbols" ? buildSymbolGraph(data) : data;
+        setGraphMode(initialGraphMode);
         setSearch(urlNavigation.search ?? "");
         setScope(urlNavigation.scope ?? ALL_SCOPE);
         setTreeDepth(urlNavigation.treeDepth ?? 3);
@@ -1484,9 +2028,9 @@ export default function App() {
 
         const initialNodeId =
           urlNavigation.nodeId &&
-          data.elements.nodes.some((node) => node.data.id === urlNavigation.nodeId)
+          initialGraph.elements.nodes.some((node) => node.data.id === urlNavigation.nodeId)
             ? urlNavigation.nodeId
-            : chooseDefaultNodeId(data);
+            : chooseDefaultNodeId(initialGraph);
         if (initialNodeId) {
           updateSelectedNode(
             initialNodeId,
@@ -1500,7 +2044,7 @@ export default function App() {
       } catch (loadError) {
         if ((loadError as Error).name !== "AbortError") {
           setError((loadError as Error).message);
-          setGraph(emptyGraph());
+          setLoadedGraph(emptyGraph());
           updateSelectedNode(null, "replace");
         }
       } finally {
@@ -1516,33 +2060,110 @@ export default function App() {
   }, []);
 
   useEffect(() => {
-    if (typeof window === "undefined") {
+    const hot = import.meta.hot;
+    if (!hot) {
       return;
     }
 
-    const onPopState = (event: PopStateEvent) => {
-      const stateValue =
-        event.state && typeof event.state === "object"
-          ? (event.state as Record<string, unknown>)
-          : undefined;
-      const historyNavigation = getNavigationFromHistoryState(stateValue);
-      const urlNavigation = getNavigationFromUrl(window.location.search);
+    // Swap in the regenerated graph but keep the selection, view settings and viewport.
+    async function reloadGraph(): Promise<void> {
+      try {
+        const response = await fetch(`${import.meta.env.BASE_URL}graph.json`, {
+          cache: "no-cache"
+        });
+        if (!response.ok) {
+          throw new Error(`Failed to reload graph.json (${response.status})`);
+        }
 
-      const fromStateViewport = urlNavigation.viewport ?? historyNavigation.viewport;
+        const data = parseGraphJson(await response.json());
+        const cy = cyRef.current;
+        pendingViewportRestoreRef.current = cy ? getViewportState(cy) : null;
+        setError(null);
+        setLoadedGraph(data);
+      } catch (reloadError) {
+        setError((reloadError as Error).message);
+      }
+    }
 
-      const nextViewMode =
-        urlNavigation.viewMode ?? historyNavigation.viewMode ?? DEFAULT_VIEW_MODE;
-      const nextLayoutMode =
-        urlNavigation.layoutMode ?? historyNavigation.layoutMode ?? DEFAULT_LAYOUT_MODE;
-      const requestedNode = urlNavigation.nodeId ?? historyNavigation.nodeId;
+    const onGraphUpdate = () => {
+      void reloadGraph();
+    };
+    hot.on(GRAPH_UPDATE_EVENT, onGraphUpdate);
+    return () => {
+      hot.off(GRAPH_UPDATE_EVENT, onGraphUpdate);
+    };
+  }, []);
 
-      setSearch(urlNavigation.search ?? historyNavigation.search ?? "");
-      setScope(urlNavigation.scope ?? historyNavigation.scope ?? ALL_SCOPE);
-      setTreeDepth(urlNavigation.treeDepth ?? historyNavigation.treeDepth ?? 3);
-      setHierarchyFolderPrefix(
-        urlNavigation.hierarchyFolderPrefix ??
-          historyNavigation.hierarchyFolderPrefix ??
-          ""
+  useEffect(() => {
+    if (typeof window === "undefined") {
+      return;
+    }
+
+    const compare = new URLSearchParams(window.location.search).get(COMPARE_PARAM);
+    if (!compare) {
+      return;
+    }
+
+    const abort = new AbortController();
+
+    async function loadBaseline(source: string): Promise<void> {
+      try {
+        const response = await fetch(new URL(source, window.location.href), {
+          signal: abort.signal,
+          cache: "no-cache"
+        });
+        if (!response.ok) {
+          throw new Error(`Failed to load comparison graph ${source} (${response.status})`);
+        }
+
+        setBaselineGraph(parseGraphJson(await response.json(), source));
+        setBaselineLabel(source);
+      } catch (loadError) {
+        if ((loadError as Error).name !== "AbortError") {
+          setError((loadError as Error).message);
+        }
+      }
+    }
+
+    loadBaseline(compare);
+
+    return () => {
+      abort.abort();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (typeof window === "undefined") {
+      return;
+    }
+
+    const onPopState = (event: PopStateEvent) => {
+      const stateValue =
+        event.state && typeof event.state === "object"
+          ? (event.state as Record<string, unknown>)
+          : undefined;
+      const historyNavigation = getNavigationFromHistoryState(stateValue);
+      const urlNavigation = getNavigationFromUrl(window.location.search);
+
+      const fromStateViewport = urlNavigation.viewport ?? historyNavigation.viewport;
+
+      const nextViewMode =
+        urlNavigation.viewMode ?? historyNavigation.viewMode ?? DEFAULT_VIEW_MODE;
+      const nextLayoutMode =
+        urlNavigation.layoutMode ?? historyNavigation.layoutMode ?? DEFAULT_LAYOUT_MODE;
+      const requestedNode = urlNavigation.nodeId ?? historyNavigation.nodeId;
+      const nextGraphMode =
+        urlNavigation.graphMode ?? historyNavigation.graphMode ?? DEFAULT_GRAPH_MODE;
+      const nextGraph = nextGraphMode === "symbols" ? symbolGraph : moduleGraph;
+
+      setGraphMode(nextGraphMode);
+      setSearch(urlNavigation.search ?? historyNavigation.search ?? "");
+      setScope(urlNavigation.scope ?? historyNavigation.scope ?? ALL_SCOPE);
+      setTreeDepth(urlNavigation.treeDepth ?? historyNavigation.treeDepth ?? 3);
+      setHierarchyFolderPrefix(
+        urlNavigation.hierarchyFolderPrefix ??
+          historyNavigation.hierarchyFolderPrefix ??
+          ""
       );
       setShowLabels(urlNavigation.showLabels ?? historyNavigation.showLabels ?? true);
       setShowImportEdges(
@@ -1565,13 +2186,21 @@ export default function App() {
       updateViewMode(nextViewMode, "none");
       updateLayoutMode(nextLayoutMode, "none");
 
-      if (requestedNode && allNodeIds.has(requestedNode)) {
+      if (
+        requestedNode &&
+        nextGraph.elements.nodes.some((node) => node.data.id === requestedNode)
+      ) {
         updateSelectedNode(requestedNode, "none", false, fromStateViewport === null);
         return;
       }
 
       if (!requestedNode) {
-        updateSelectedNode(defaultNodeId, "none", false, fromStateViewport === null);
+        updateSelectedNode(
+          chooseDefaultNodeId(nextGraph),
+          "none",
+          false,
+          fromStateViewport === null
+        );
       }
     };
 
@@ -1579,7 +2208,7 @@ export default function App() {
     return () => {
       window.removeEventListener("popstate", onPopState);
     };
-  }, [allNodeIds, defaultNodeId]);
+  }, [moduleGraph, symbolGraph]);
 
   useEffect(() => {
     if (typeof window === "undefined") {
@@ -1604,6 +2233,7 @@ export default function App() {
           parseViewportState(currentState.viewport);
     const nextState: Record<string, unknown> = {
       ...currentState,
+      graphMode,
       nodeId: selectedId,
       viewMode,
       layoutMode,
@@ -1624,6 +2254,7 @@ export default function App() {
     }
 
     const nextUrl = buildUrlFromNavigationState({
+      graphMode,
       nodeId: selectedId,
       viewMode,
       layoutMode,
@@ -1640,6 +2271,7 @@ export default function App() {
     });
     const currentUrl = `${window.location.pathname}${window.location.search}${window.location.hash}`;
 
+    const sameGraphMode = (currentNavigation.graphMode ?? DEFAULT_GRAPH_MODE) === graphMode;
     const sameNode = currentNavigation.nodeId === selectedId;
     const sameView = currentNavigation.viewMode === viewMode;
     const sameLayout = currentNavigation.layoutMode === layoutMode;
@@ -1662,6 +2294,7 @@ export default function App() {
       currentNavigation.viewport ?? parseViewportState(currentState.viewport);
     const sameViewport = viewportStatesEqual(currentViewport, viewport);
     const sameHistoryState =
+      sameGraphMode &&
       sameNode &&
       sameView &&
       sameLayout &&
@@ -1685,6 +2318,7 @@ export default function App() {
       window.history.replaceState(nextState, "", nextUrl);
     }
   }, [
+    graphMode,
     selectedId,
     viewMode,
     layoutMode,
@@ -1804,6 +2438,22 @@ export default function App() {
             "background-color": "#9ca3af"
           }
         },
+        {
+          selector: 'node[diffStatus = "removed"]',
+          style: {
+            "border-width": 2,
+            "border-style": "dashed",
+            "border-color": DIFF_STATUS_COLORS.removed
+          }
+        },
+        {
+          selector: "node.rule-violation",
+          style: {
+            "border-width": 3,
+            "border-style": "double",
+            "border-color": RULE_VIOLATION_COLOR
+          }
+        },
         {
           selector: "node:selected",
           style: {
@@ -1831,6 +2481,20 @@ export default function App() {
             "z-index": 4
           }
         },
+        {
+          selector: 'edge[kind = "call"]',
+          style: {
+            "line-color": "rgba(124, 58, 237, 0.34)",
+            width: 1.2,
+            "line-style": "solid",
+            "target-arrow-color": "rgba(124, 58, 237, 0.4)",
+            "target-arrow-shape": "triangle",
+            "curve-style": "bezier",
+            "arrow-scale": 0.75,
+            opacity: 0.6,
+            "z-index": 4
+          }
+        },
         {
           selector: 'edge[kind = "reexport"]',
           style: {
@@ -1844,6 +2508,48 @@ export default function App() {
             opacity: 0.6,
             "z-index": 4
           }
+        },
+        {
+          selector: 'edge[diffStatus = "added"]',
+          style: {
+            "line-color": DIFF_STATUS_COLORS.added,
+            "target-arrow-color": DIFF_STATUS_COLORS.added,
+            "line-style": "solid",
+            width: 2,
+            opacity: 0.9
+          }
+        },
+        {
+          selector: 'edge[diffStatus = "removed"]',
+          style: {
+            "line-color": DIFF_STATUS_COLORS.removed,
+            "target-arrow-color": DIFF_STATUS_COLORS.removed,
+            "line-style": "dashed",
+            width: 2,
+            opacity: 0.8
+          }
+        },
+        {
+          selector: "edge.rule-violation",
+          style: {
+            "line-color": RULE_VIOLATION_COLOR,
+            "target-arrow-color": RULE_VIOLATION_COLOR,
+            "line-style": "solid",
+            width: 2.4,
+            opacity: 1,
+            "z-index": 11
+          }
+        },
+        {
+          selector: "edge.back-edge",
+          style: {
+            "line-color": BACK_EDGE_COLOR,
+            "target-arrow-color": BACK_EDGE_COLOR,
+            "line-style": "solid",
+            width: 2.4,
+            opacity: 1,
+            "z-index": 12
+          }
         }
       ],
       layout: getLayoutOptions(layoutMode)
@@ -1854,7 +2560,17 @@ export default function App() {
       updateSelectedNode(node.id(), "push", false, true);
     });
 
+    cy.on("mouseover", "edge", (event) => {
+      const position = event.renderedPosition;
+      setHoveredEdge({ data: event.target.data() as GraphEdgeData, x: position.x, y: position.y });
+    });
+
+    cy.on("mouseout", "edge", () => {
+      setHoveredEdge(null);
+    });
+
     cy.on("zoom", () => {
+      setHoveredEdge(null);
       setZoomPercent(Math.round(cy.zoom() * 100));
       scheduleViewportPersistence();
     });
@@ -1869,6 +2585,7 @@ export default function App() {
     cyRef.current = cy;
 
     return () => {
+      setHoveredEdge(null);
       cy.destroy();
       cyRef.current = null;
     };
@@ -1892,16 +2609,23 @@ export default function App() {
         );
         const isVirtual = Boolean(nodeData?.isVirtual);
         const isSymbolUser = selectedSymbolUserIds.has(id);
+        const diffStatus = nodeData?.diffStatus;
         const metricColor =
           isSymbolUser
             ? "#16a34a"
-            : isVirtual
-              ? "#9ca3af"
-              : nodeStyleMetric === "none"
-                ? "#2563eb"
-                : getMetricNodeColor(normalizedMetric);
+            : diffStatus
+              ? DIFF_STATUS_COLORS[diffStatus]
+              : isVirtual
+                ? "#9ca3af"
+                : nodeStyleMetric === "none"
+                  ? "#2563eb"
+                  : nodeStyleMetric === "library"
+                    ? libraryColorByLabel.get(nodeData?.library ?? "") ?? "#2563eb"
+                    : getMetricNodeColor(normalizedMetric);
         const metricSize =
-          nodeStyleMetric === "none" ? 14 : getMetricNodeSize(normalizedMetric);
+          nodeStyleMetric === "none" || nodeStyleMetric === "library"
+            ? 14
+            : getMetricNodeSize(normalizedMetric);
         const isDimmedGenerated =
           dimGeneratedNodes && nodeData ? isGeneratedNode(nodeData) : false;
 
@@ -1909,22 +2633,32 @@ export default function App() {
         node.toggleClass("nolabel", !showLabels);
         node.toggleClass("search-hit", searchMatchedIds.has(id));
         node.toggleClass("symbol-user", isSymbolUser);
+        node.toggleClass(
+          "rule-violation",
+          graphMode === "modules" &&
+            (violationsByModule.get(id) ?? []).some((violation) => !violation.edgeId)
+        );
         node.style("background-color", metricColor);
         node.style("width", metricSize);
         node.style("height", metricSize);
-        node.style("background-opacity", isDimmedGenerated ? 0.45 : 1);
+        node.style(
+          "background-opacity",
+          isDimmedGenerated || diffStatus === "removed" ? 0.45 : 1
+        );
         node.style("text-opacity", isDimmedGenerated ? 0.62 : 1);
       });
 
       cy.edges().forEach((edge) => {
         const source = String(edge.data("source"));
         const target = String(edge.data("target"));
-        const kind = String(edge.data("kind"));
+        const kind = edge.data("kind") as EdgeKind;
         const sourceVisible = visibleNodeIds.has(source);
         const targetVisible = visibleNodeIds.has(target);
-        const kindVisible = kind === "import" ? showImportEdges : showReexportEdges;
+        const kindVisible = isEdgeKindVisible(kind, showImportEdges, showReexportEdges);
 
         edge.toggleClass("hidden", !(sourceVisible && targetVisible && kindVisible));
+        edge.toggleClass("back-edge", viewMode === "cycles" && Boolean(edge.data("isBackEdge")));
+        edge.toggleClass("rule-violation", violatingEdgeIds.has(edge.id()));
       });
     });
   }, [
@@ -1935,9 +2669,14 @@ export default function App() {
     nodeStyleMetric,
     nodeStyleValues,
     dimGeneratedNodes,
+    libraryColorByLabel,
     selectedSymbolUserIds,
     showImportEdges,
-    showReexportEdges
+    showReexportEdges,
+    viewMode,
+    graphMode,
+    violationsByModule,
+    violatingEdgeIds
   ]);
 
   useEffect(() => {
@@ -2047,6 +2786,83 @@ export default function App() {
     setShowLabels(true);
   }
 
+  function removeCompareParam(): void {
+    if (typeof window === "undefined") {
+      return;
+    }
+
+    const url = new URL(window.location.href);
+    if (url.searchParams.has(COMPARE_PARAM)) {
+      url.searchParams.delete(COMPARE_PARAM);
+      window.history.replaceState(window.history.state, "", url);
+    }
+  }
+
+  async function loadBaselineFile(file: File): Promise<void> {
+    try {
+      const data = parseGraphJson(JSON.parse(await file.text()), file.name);
+      removeCompareParam();
+      setBaselineGraph(data);
+      setBaselineLabel(file.name);
+    } catch (loadError) {
+      setError((loadError as Error).message);
+    }
+  }
+
+  function clearBaseline(): void {
+    removeCompareParam();
+    setBaselineGraph(null);
+    setBaselineLabel(null);
+    setShowChangedOnly(false);
+  }
+
+  /** Downloads the nodes and edges currently drawn, with the same filters as the canvas. */
+  function exportVisibleGraph(): void {
+    const nodes = graph.elements.nodes
+      .filter((node) => visibleNodeIds.has(node.data.id))
+      .map((node) => node.data);
+    const edges = graph.elements.edges
+      .filter(
+        (edge) =>
+          visibleNodeIds.has(edge.data.source) &&
+          visibleNodeIds.has(edge.data.target) &&
+          isEdgeKindVisible(edge.data.kind, showImportEdges, showReexportEdges)
+      )
+      .map((edge) => edge.data);
+
+    exportGraph(nodes, edges, exportFormat).forEach((file, index) => {
+      const fileName = `fs-${graphMode}${file.suffix}.${file.extension}`;
+      const download = () => downloadBlob(fileName, file.content, file.mimeType);
+      // The first download runs inside the click handler, while the user gesture is still active.
+      if (index === 0) {
+        download();
+      } else {
+        window.setTimeout(download, index * DOWNLOAD_STAGGER_MS);
+      }
+    });
+  }
+
+  async function loadRulesFile(file: File): Promise<void> {
+    try {
+      setArchitectureRules(parseArchitectureRules(JSON.parse(await file.text()), file.name));
+      setRulesLabel(file.name);
+    } catch (loadError) {
+      setError((loadError as Error).message);
+    }
+  }
+
+  function clearRules(): void {
+    setArchitectureRules(null);
+    setRulesLabel(null);
+  }
+
+  function toggleChangedOnly(enabled: boolean): void {
+    setShowChangedOnly(enabled);
+    if (enabled) {
+      updateViewMode("full", "replace");
+    }
+  }
+
   function resetToStart(): void {
     pendingViewportRestoreRef.current = null;
     pendingCenterSelectionRef.current = false;
@@ -2057,6 +2873,12 @@ export default function App() {
       window.history.replaceState({}, "", cleanUrl);
     }
 
+    setBaselineGraph(null);
+    setBaselineLabel(null);
+    setShowChangedOnly(false);
+    clearRules();
+    setFocusedCycleModuleId(null);
+    setGraphMode(DEFAULT_GRAPH_MODE);
     setSearch("");
     setScope(ALL_SCOPE);
     setTreeDepth(3);
@@ -2070,7 +2892,7 @@ export default function App() {
     setExpandedFolders(folderTree.childrenByParent.get("") ?? []);
     updateViewMode(DEFAULT_VIEW_MODE, "replace");
     updateLayoutMode(DEFAULT_LAYOUT_MODE, "replace");
-    updateSelectedNode(defaultNodeId, "replace", false, true);
+    updateSelectedNode(chooseDefaultNodeId(loadedGraph), "replace", false, true);
   }
 
   function toggleFolderExpanded(path: string): void {
@@ -2089,6 +2911,12 @@ export default function App() {
     updateLayoutMode("breadthfirst", "replace");
   }
 
+  function selectCycle(sccId: number | null): void {
+    const component = cycleComponents.find((entry) => entry.sccId === sccId);
+    setFocusedCycleModuleId(component?.members[0] ?? null);
+    updateViewMode("cycles", "replace");
+  }
+
   function renderFolderBranch(parentPath: string, depth: number) {
     const children = folderTree.childrenByParent.get(parentPath) ?? [];
     if (children.length === 0) {
@@ -2132,7 +2960,300 @@ export default function App() {
     });
   }
 
-  function renderModuleLinks(modules: string[], targets: string[]) {
+  function renderSeeAlso(text: string) {
+    const references = [...text.matchAll(/\[([A-Za-z_][A-Za-z0-9_]*)\]/g)].map(
+      (match) => match[1]
+    );
+    if (references.length === 0) {
+      return text;
+    }
+
+    return references.map((reference, index) => {
+      const ownerId = symbolOwnersByName.get(reference);
+      return (
+        <Fragment key={`${reference}-${index}`}>
+          {index > 0 ? ", " : ""}
+          {ownerId ? (
+            <button
+              className="inline-link"
+              onClick={() => focusNode(ownerId)}
+              title={ownerId}
+              type="button"
+            >
+              {reference}
+            </button>
+          ) : (
+            reference
+          )}
+        </Fragment>
+      );
+    });
+  }
+
+  function renderDocComment(doc: DocComment) {
+    const params = doc.tags.filter((tag) => tag.tag === "param" || tag.tag === "field");
+    const returns = doc.tags.filter((tag) => tag.tag === "return" || tag.tag === "returns");
+    const values = doc.tags.filter((tag) => tag.tag === "value");
+    const seeAlso = doc.tags.filter((tag) => tag.tag === "seealso");
+    const otherTags = doc.tags.filter(
+      (tag) =>
+        !params.includes(tag) &&
+        !returns.includes(tag) &&
+        !values.includes(tag) &&
+        !seeAlso.includes(tag)
+    );
+
+    return (
+      <div className="doc-block">
+        {doc.description && <div className="doc-description">{doc.description}</div>}
+        {[
+          { label: "Parameters", tags: params },
+          { label: "Values", tags: values },
+          { label: "Returns", tags: returns }
+        ].map((section) =>
+          section.tags.length === 0 ? null : (
+            <Fragment key={section.label}>
+              <div className="doc-section-label">{section.label}</div>
+              <ul className="doc-tag-list">
+                {section.tags.map((tag, index) => (
+                  <li key={`${tag.name ?? tag.tag}-${index}`}>
+                    {tag.name && <code className="doc-tag-name">{tag.name}</code>}
+                    {tag.type && <span className="doc-tag-type">{` {${tag.type}}`}</span>}
+                    {tag.text && <div className="doc-tag-text">{tag.text}</div>}
+                  </li>
+                ))}
+              </ul>
+            </Fragment>
+          )
+        )}
+        {seeAlso.length > 0 && (
+          <div className="doc-see-also">
+            <span className="doc-section-label">See also: </span>
+            {seeAlso.map((tag, index) => (
+              <Fragment key={`seealso-${index}`}>
+                {index > 0 ? ", " : ""}
+                {renderSeeAlso(tag.text)}
+              </Fragment>
+            ))}
+          </div>
+        )}
+        {otherTags.map((tag, index) => (
+          <div className="doc-tag-text" key={`${tag.tag}-${index}`}>
+            <span className="doc-section-label">@{tag.tag}</span>
+            {tag.name ? ` ${tag.name}` : ""}
+            {tag.text ? ` ${tag.text}` : ""}
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  function renderCallLinks(
+    edges: GraphJson["elements"]["edges"],
+    direction: "callers" | "callees"
+  ) {
+    if (edges.length === 0) {
+      return <div className="details-row">None</div>;
+    }
+
+    return (
+      <ul className="details-list">
+        {edges.map((edge) => {
+          const otherId = direction === "callers" ? edge.data.source : edge.data.target;
+          const other = callGraphNodeById.get(otherId);
+          const lines = edge.data.lines ?? [];
+          const lineText =
+            lines.length > 0
+              ? ` · ${direction === "callers" ? "calls at" : "called at"} L${lines.join(", L")}`
+              : "";
+          return (
+            <li className="details-list-item" key={edge.data.id}>
+              <button className="inline-link" onClick={() => focusNode(otherId)} type="button">
+                {other?.name ?? otherId}
+              </button>
+              <span className="link-meta">
+                {" "}
+                {other?.moduleId ?? ""}
+                {lineText}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    );
+  }
+
+  function renderModuleChange(node: GraphNodeData) {
+    const change = moduleChangeById.get(node.id);
+    if (!node.diffStatus && !change) {
+      return null;
+    }
+
+    const sizeDelta = change
+      ? ` · LOC ${formatSignedDelta(change.locAfter - change.locBefore)}, functions ` +
+        formatSignedDelta(change.functionCountAfter - change.functionCountBefore)
+      : "";
+
+    return (
+      <>
+        <div className="details-row">
+          <span className="details-label">Since Baseline:</span>{" "}
+          <span className={node.diffStatus ? `diff-${node.diffStatus}` : undefined}>
+            {node.diffStatus ?? "modified"}
+          </span>
+          {sizeDelta}
+        </div>
+        {change && change.exportsAdded.length > 0 && (
+          <div className="details-row">
+            <span className="diff-added">+ exports:</span> {change.exportsAdded.join(", ")}
+          </div>
+        )}
+        {change && change.exportsRemoved.length > 0 && (
+          <div className="details-row">
+            <span className="diff-removed">- exports:</span> {change.exportsRemoved.join(", ")}
+          </div>
+        )}
+      </>
+    );
+  }
+
+  function renderFeatureParameters(feature: FeatureRecord) {
+    if (feature.parameters.length === 0) {
+      return <div className="details-row">No parameters declared.</div>;
+    }
+
+    return (
+      <ul className="details-list feature-parameters">
+        {feature.parameters.map((parameter, index) => {
+          const type = parameter.predicate
+            ? `${parameter.predicate}(${parameter.bounds ?? ""})`
+            : (parameter.type ?? "");
+          return (
+            <li className="details-list-item" key={`${parameter.name}-${index}`}>
+              <code>definition.{parameter.name}</code>
+              {type && <span className="symbol-kind"> {type}</span>}
+              {parameter.conditional && <span className="link-meta"> conditional</span>}
+              <span className="link-meta"> L{parameter.line}</span>
+              {parameter.label && <div className="feature-parameter-label">{parameter.label}</div>}
+            </li>
+          );
+        })}
+      </ul>
+    );
+  }
+
+  /**
+   * Links to each function in the cluster, exported ones flagged. `exclude` drops every overload
+   * of a symbol id, or just the one member when given a member.
+   */
+  function renderDuplicateMembers(
+    cluster: DuplicateCluster,
+    exclude?: string | DuplicateFunction
+  ) {
+    const isExcluded = (member: DuplicateFunction) =>
+      typeof exclude === "string" ? member.symbolId === exclude : member === exclude;
+    return (
+      <ul className="details-list">
+        {cluster.members
+          .filter((member) => !isExcluded(member))
+          .map((member) => (
+            <li className="details-list-item" key={`${member.symbolId}:${member.startLine}`}>
+              <button
+                className="inline-link"
+                onClick={() => focusSymbol(member.moduleId, member.name)}
+                title={member.symbolId}
+                type="button"
+              >
+                {member.name}
+              </button>
+              {member.exported && <span className="symbol-kind"> exported</span>}
+              <span className="link-meta">
+                {" "}
+                {member.moduleId} {formatLineRange(member.startLine, member.endLine)}
+              </span>
+            </li>
+          ))}
+      </ul>
+    );
+  }
+
+  function renderTypeDetails(node: GraphNodeData, symbol: SymbolRecord) {
+    const signatureUsers = node.signatureUsers?.[symbol.name] ?? [];
+    const signaturesByModule = new Map<string, string[]>();
+    for (const symbolId of signatureUsers) {
+      const separator = symbolId.lastIndexOf("#");
+      const moduleId = symbolId.slice(0, separator);
+      const list = signaturesByModule.get(moduleId) ?? [];
+      list.push(symbolId.slice(separator + 1));
+      signaturesByModule.set(moduleId, list);
+    }
+
+    return (
+      <>
+        {symbol.typecheck && (
+          <div className="details-row">
+            <span className="details-label">Typecheck:</span> <code>{symbol.typecheck}</code>
+          </div>
+        )}
+
+        {symbol.members && (
+          <>
+            <div className="details-row">
+              <span className="details-label">Values ({symbol.members.length})</span>
+            </div>
+            <ul className="details-list">
+              {symbol.members.map((member) => {
+                const label = member.annotations.Name;
+                return (
+                  <li className="details-list-item" key={member.name}>
+                    <code>{member.name}</code>
+                    {typeof label === "string" && <span className="link-meta"> {label}</span>}
+                    {member.annotations.Hidden === true && (
+                      <span className="link-meta"> (hidden)</span>
+                    )}
+                    <span className="link-meta"> L{member.line}</span>
+                  </li>
+                );
+              })}
+            </ul>
+          </>
+        )}
+
+        <div className="details-row">
+          <span className="details-label">
+            Signatures Using `{symbol.name}` ({signaturesByModule.size} modules)
+          </span>
+        </div>
+        {signaturesByModule.size === 0 ? (
+          <div className="details-row">None</div>
+        ) : (
+          <ul className="details-list">
+            {[...signaturesByModule]
+              .sort((a, b) => a[0].localeCompare(b[0]))
+              .map(([moduleId, names]) => (
+                <li className="details-list-item" key={moduleId}>
+                  <button
+                    className="inline-link"
+                    onClick={() => focusModule(moduleId)}
+                    type="button"
+                  >
+                    {moduleId}
+                  </button>
+                  <span className="link-meta"> {names.join(", ")}</span>
+                </li>
+              ))}
+          </ul>
+        )}
+      </>
+    );
+  }
+
+  function renderModuleLinks(
+    sourceId: string,
+    kind: "import" | "reexport",
+    modules: string[],
+    targets: string[]
+  ) {
     if (modules.length === 0) {
       return <div className="details-row">None</div>;
     }
@@ -2141,11 +3262,14 @@ export default function App() {
       <ul className="details-list">
         {modules.map((modulePath, index) => {
           const targetId = targets[index] ?? modulePath;
+          const edge = moduleEdgeByKey.get(`${kind}\u0000${sourceId}\u0000${targetId}`);
+          const metadata = edge ? formatImportMetadata(edge) : "";
           return (
             <li className="details-list-item" key={`${modulePath}-${index}`}>
               <button className="inline-link" onClick={() => focusNode(targetId)} type="button">
                 {modulePath}
               </button>
+              {metadata && <span className="link-meta"> {metadata}</span>}
             </li>
           );
         })}
@@ -2158,7 +3282,7 @@ export default function App() {
       <aside className="sidebar">
         <div className="sidebar-header">
           <button className="sidebar-title-button" onClick={resetToStart} type="button">
-            Onshape Standard FeatureScript Modules ({graph.elements.nodes.length})
+            Onshape Standard FeatureScript {graphTitleNoun} ({graph.elements.nodes.length})
           </button>
           <input
             className="search-input"
@@ -2187,6 +3311,141 @@ export default function App() {
             </button>
           </div>
 
+          <div className="control-group">
+            <label className="control-label" htmlFor="graph-mode-select">
+              Graph
+            </label>
+            <select
+              className="control-input"
+              id="graph-mode-select"
+              onChange={(event) => updateGraphMode(event.target.value as GraphMode)}
+              value={graphMode}
+            >
+              <option value="modules">Modules (imports / reexports)</option>
+              <option disabled={!hasCallGraph} value="symbols">
+                Symbols (function calls)
+              </option>
+            </select>
+          </div>
+
+          <div className="control-group">
+            <label className="control-label" htmlFor="baseline-file-input">
+              Compare With
+            </label>
+            {baselineGraph ? (
+              <div className="details-row">
+                {baselineLabel}{" "}
+                <button className="inline-link" onClick={clearBaseline} type="button">
+                  clear
+                </button>
+              </div>
+            ) : (
+              <input
+                accept=".json,application/json"
+                className="control-input"
+                id="baseline-file-input"
+                onChange={(event) => {
+                  const file = event.target.files?.[0];
+                  if (file) {
+                    void loadBaselineFile(file);
+                  }
+                }}
+                type="file"
+              />
+            )}
+          </div>
+
+          {graphDiff && (
+            <div className="metric-legend">
+              <div className="metric-legend-title">Changes since baseline</div>
+              <div className="metric-legend-row">
+                <span
+                  className="metric-chip"
+                  style={{ backgroundColor: DIFF_STATUS_COLORS.added }}
+                />
+                <span className="metric-value">{diffStatusCounts.added} added</span>
+                <span
+                  className="metric-chip"
+                  style={{ backgroundColor: DIFF_STATUS_COLORS.removed }}
+                />
+                <span className="metric-value">{diffStatusCounts.removed} removed</span>
+                <span
+                  className="metric-chip"
+                  style={{ backgroundColor: DIFF_STATUS_COLORS.changed }}
+                />
+                <span className="metric-value">{diffStatusCounts.changed} changed</span>
+              </div>
+              <div className="details-row">
+                Edges: +{graphDiff.addedEdges.length} / -{graphDiff.removedEdges.length}
+              </div>
+              <label className="toggle-row">
+                <input
+                  checked={showChangedOnly}
+                  disabled={graphMode !== "modules"}
+                  onChange={(event) => toggleChangedOnly(event.target.checked)}
+                  type="checkbox"
+                />
+                Only changed modules + neighbors
+              </label>
+            </div>
+          )}
+
+          <div className="control-group">
+            <label className="control-label" htmlFor="rules-file-input">
+              Architecture Rules
+            </label>
+            {architectureRules ? (
+              <div className="details-row">
+                {rulesLabel}{" "}
+                <button className="inline-link" onClick={clearRules} type="button">
+                  clear
+                </button>
+              </div>
+            ) : (
+              <input
+                accept=".json,application/json"
+                className="control-input"
+                id="rules-file-input"
+                onChange={(event) => {
+                  const file = event.target.files?.[0];
+                  if (file) {
+                    void loadRulesFile(file);
+                  }
+                }}
+                type="file"
+              />
+            )}
+          </div>
+
+          {architectureRules && (
+            <div className="metric-legend">
+              <div className="metric-legend-title">
+                {ruleViolations.length === 0
+                  ? `All ${architectureRules.length} rules pass`
+                  : `Rule violations (${ruleViolations.length})`}
+              </div>
+              {ruleViolations.length > 0 && (
+                <div className="rule-violation-list">
+                  {ruleViolations.map((violation, index) => (
+                    <div className="details-row" key={`${violation.rule}-${index}`}>
+                      <span className={`rule-${violation.severity}`}>
+                        {violation.severity}
+                      </span>{" "}
+                      <button
+                        className="inline-link"
+                        onClick={() => focusModule(violation.moduleId)}
+                        title={violation.rule}
+                        type="button"
+                      >
+                        {violation.message}
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
           <div className="control-group">
             <label className="control-label" htmlFor="scope-select">
               Folder Scope
@@ -2219,9 +3478,18 @@ export default function App() {
               <option value="search-only">Search matches only</option>
               <option value="selected-1">Selected + 1 hop</option>
               <option value="selected-2">Selected + 2 hops</option>
-              <option value="tree-outgoing">Dependency tree (outgoing)</option>
-              <option value="tree-incoming">Reverse dependency tree (incoming)</option>
+              <option value="tree-outgoing">
+                {graphMode === "symbols" ? "Callee tree (outgoing)" : "Dependency tree (outgoing)"}
+              </option>
+              <option value="tree-incoming">
+                {graphMode === "symbols"
+                  ? "Caller tree (incoming)"
+                  : "Reverse dependency tree (incoming)"}
+              </option>
               <option value="hierarchy">Hierarchy (folder scoped)</option>
+              <option disabled={graphMode === "symbols"} value="cycles">
+                Import cycles (SCCs)
+              </option>
               <option value="full">Full visible scope</option>
             </select>
           </div>
@@ -2282,6 +3550,14 @@ export default function App() {
               <option value="exports">Export count</option>
               <option value="loc">Lines of code</option>
               <option value="functions">Function count</option>
+              <optgroup label="Function complexity">
+                {Object.entries(COMPLEXITY_STYLE_METRICS).map(([value, { label }]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </optgroup>
+              {hasMultipleLibraries && <option value="library">Library</option>}
             </select>
           </div>
 
@@ -2303,7 +3579,24 @@ export default function App() {
             Dim .gen.fs nodes
           </label>
 
-          {nodeStyleMetric !== "none" && (
+          {nodeStyleMetric === "library" && (
+            <div className="metric-legend">
+              <div className="metric-legend-title">Libraries</div>
+              {[...libraryColorByLabel].map(([label, color]) => (
+                <div className="metric-legend-row" key={label}>
+                  <span className="metric-chip" style={{ backgroundColor: color }} />
+                  <span className="metric-value">{label}</span>
+                </div>
+              ))}
+              {libraryDependencies.map((dependency) => (
+                <div className="details-row" key={`${dependency.from}-${dependency.to}`}>
+                  {dependency.from} uses {dependency.moduleCount} {dependency.to} modules
+                </div>
+              ))}
+            </div>
+          )}
+
+          {nodeStyleMetric !== "none" && nodeStyleMetric !== "library" && (
             <div className="metric-legend">
               <div className="metric-legend-title">
                 {nodeStyleLegend.label} scale (visible nodes)
@@ -2366,9 +3659,83 @@ export default function App() {
             </button>
           </div>
 
+          <div className="control-group">
+            <label className="control-label" htmlFor="export-format-select">
+              Export Visible ({visibleNodeCount} nodes, {visibleEdgeCount} edges)
+            </label>
+            <div className="export-row">
+              <select
+                className="control-input"
+                id="export-format-select"
+                onChange={(event) => setExportFormat(event.target.value as ExportFormat)}
+                value={exportFormat}
+              >
+                {EXPORT_FORMATS.map((format) => (
+                  <option key={format} value={format}>
+                    {EXPORT_FORMAT_LABELS[format]}
+                  </option>
+                ))}
+              </select>
+              <button
+                className="toolbar-button"
+                disabled={visibleNodeCount === 0}
+                onClick={exportVisibleGraph}
+                type="button"
+              >
+                Export
+              </button>
+            </div>
+          </div>
+
           <div className="details-row" style={{ marginTop: 10, marginBottom: 0 }}>
-            Sidebar matches: {sidebarNodes.length}
+            Sidebar matches:{" "}
+            {sidebarPanel === "features"
+              ? sidebarFeatures.length
+              : sidebarPanel === "types"
+                ? sidebarTypes.length
+                : sidebarPanel === "duplicates"
+                  ? sidebarDuplicates.length
+                  : sidebarNodes.length}
           </div>
+
+          {(features.length > 0 || typeEntries.length > 0 || duplicates.length > 0) && (
+            <div className="button-row sidebar-tabs">
+              <button
+                className={`toolbar-button${sidebarPanel === "modules" ? " active" : ""}`}
+                onClick={() => setSidebarPanel("modules")}
+                type="button"
+              >
+                {graphTitleNoun}
+              </button>
+              {features.length > 0 && (
+                <button
+                  className={`toolbar-button${sidebarPanel === "features" ? " active" : ""}`}
+                  onClick={() => setSidebarPanel("features")}
+                  type="button"
+                >
+                  Features ({features.length})
+                </button>
+              )}
+              {typeEntries.length > 0 && (
+                <button
+                  className={`toolbar-button${sidebarPanel === "types" ? " active" : ""}`}
+                  onClick={() => setSidebarPanel("types")}
+                  type="button"
+                >
+                  Types ({typeEntries.length})
+                </button>
+              )}
+              {duplicates.length > 0 && (
+                <button
+                  className={`toolbar-button${sidebarPanel === "duplicates" ? " active" : ""}`}
+                  onClick={() => setSidebarPanel("duplicates")}
+                  type="button"
+                >
+                  Duplicates ({duplicates.length})
+                </button>
+              )}
+            </div>
+          )}
         </div>
 
         {viewMode === "hierarchy" && (
@@ -2389,19 +3756,162 @@ export default function App() {
           </div>
         )}
 
-        <ul className="node-list">
-          {sidebarNodes.map((node) => (
-            <li className="node-list-item" key={node.data.id}>
-              <button
-                className={`node-button${selectedId === node.data.id ? " active" : ""}`}
-                onClick={() => focusNode(node.data.id)}
-                type="button"
-              >
-                {node.data.label}
-              </button>
-            </li>
-          ))}
-        </ul>
+        {viewMode === "cycles" && (
+          <div className="folder-panel">
+            <div className="folder-header">Import Cycles ({cycleComponents.length})</div>
+            {cycleComponents.length === 0 ? (
+              <div className="folder-row">
+                <div className="folder-indent" style={{ width: 10 }} />
+                <span className="folder-count">No modules import each other in a cycle.</span>
+              </div>
+            ) : (
+              <div className="folder-tree-scroll">
+                <div className="folder-row">
+                  <div className="folder-indent" style={{ width: 10 }} />
+                  <span className="folder-spacer">•</span>
+                  <button
+                    className={`folder-select${focusedSccId === null ? " active" : ""}`}
+                    onClick={() => selectCycle(null)}
+                    type="button"
+                  >
+                    All cycles
+                  </button>
+                </div>
+                {cycleComponents.map((component) => (
+                  <Fragment key={component.sccId}>
+                    <div className="folder-row">
+                      <div className="folder-indent" style={{ width: 10 }} />
+                      <span className="folder-spacer">↻</span>
+                      <button
+                        className={`folder-select${
+                          focusedSccId === component.sccId ? " active" : ""
+                        }`}
+                        onClick={() => selectCycle(component.sccId)}
+                        type="button"
+                      >
+                        Cycle {component.sccId + 1}
+                        <span className="folder-count"> ({component.members.length} modules)</span>
+                      </button>
+                    </div>
+                    {component.members.map((id) => (
+                      <div className="folder-row" key={id}>
+                        <div className="folder-indent" style={{ width: 38 }} />
+                        <button
+                          className={`folder-select${selectedId === id ? " active" : ""}`}
+                          onClick={() => focusNode(id)}
+                          title={id}
+                          type="button"
+                        >
+                          {nodeById.get(id)?.label ?? id}
+                        </button>
+                      </div>
+                    ))}
+                  </Fragment>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {sidebarPanel === "features" && features.length > 0 ? (
+          <ul className="node-list">
+            {sidebarFeatures.map((feature) => (
+              <li className="node-list-item" key={feature.id}>
+                <button
+                  className={`node-button${expandedSidebarId === feature.id ? " active" : ""}`}
+                  onClick={() => {
+                    setExpandedSidebarId((previous) =>
+                      previous === feature.id ? null : feature.id
+                    );
+                    focusModule(feature.moduleId);
+                  }}
+                  type="button"
+                >
+                  {feature.featureTypeName ?? feature.name}
+                  <span className="sidebar-item-meta">
+                    {feature.name} · {feature.moduleId}
+                  </span>
+                </button>
+                {expandedSidebarId === feature.id && (
+                  <div className="sidebar-item-details">{renderFeatureParameters(feature)}</div>
+                )}
+              </li>
+            ))}
+          </ul>
+        ) : sidebarPanel === "types" && typeEntries.length > 0 ? (
+          <ul className="node-list">
+            {sidebarTypes.map((entry) => (
+              <li className="node-list-item" key={entry.id}>
+                <button
+                  className={`node-button${expandedSidebarId === entry.id ? " active" : ""}`}
+                  onClick={() => {
+                    setExpandedSidebarId((previous) => (previous === entry.id ? null : entry.id));
+                    focusModule(entry.node.id);
+                  }}
+                  type="button"
+                >
+                  {entry.symbol.name}
+                  <span className="sidebar-item-meta">
+                    {entry.symbol.kind} · {entry.node.id}
+                  </span>
+                </button>
+                {expandedSidebarId === entry.id && (
+                  <div className="sidebar-item-details">
+                    {renderTypeDetails(entry.node, entry.symbol)}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        ) : sidebarPanel === "duplicates" && duplicates.length > 0 ? (
+          <ul className="node-list">
+            {sidebarDuplicates.map((cluster) => {
+              const clusterKey = `duplicate-${cluster.id}`;
+              const moduleCount = new Set(cluster.members.map((member) => member.moduleId)).size;
+              return (
+                <li className="node-list-item" key={clusterKey}>
+                  <button
+                    className={`node-button${expandedSidebarId === clusterKey ? " active" : ""}`}
+                    onClick={() =>
+                      setExpandedSidebarId((previous) =>
+                        previous === clusterKey ? null : clusterKey
+                      )
+                    }
+                    type="button"
+                  >
+                    {[...new Set(cluster.members.map((member) => member.name))].join(" ≈ ")}
+                    <span className="sidebar-item-meta">
+                      {cluster.members.length} functions · {moduleCount} modules ·{" "}
+                      {Math.round(cluster.similarity * 100)}% similar
+                    </span>
+                  </button>
+                  {expandedSidebarId === clusterKey && (
+                    <div className="sidebar-item-details">{renderDuplicateMembers(cluster)}</div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <ul className="node-list">
+            {sidebarNodes.map((node) => (
+              <li className="node-list-item" key={node.data.id}>
+                <button
+                  className={`node-button${selectedId === node.data.id ? " active" : ""}`}
+                  onClick={() => focusNode(node.data.id)}
+                  type="button"
+                >
+                  {node.data.label}
+                  {node.data.diffStatus && (
+                    <span className={`sidebar-item-meta diff-${node.data.diffStatus}`}>
+                      {node.data.diffStatus}
+                    </span>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
       </aside>
 
       <main className="graph-pane">
@@ -2418,11 +3928,31 @@ export default function App() {
           </div>
           <div>
             Style: {nodeStyleLegend.label}
-            {nodeStyleMetric === "none"
+            {nodeStyleMetric === "none" || nodeStyleMetric === "library"
               ? ""
               : ` (${nodeStyleLegend.min} to ${nodeStyleLegend.max})`}
           </div>
         </div>
+        {hoveredEdge && (
+          <div
+            className="edge-tooltip"
+            style={{ left: hoveredEdge.x + 12, top: hoveredEdge.y + 12 }}
+          >
+            <div className="edge-tooltip-title">{hoveredEdge.data.kind}</div>
+            <div>
+              {hoveredEdge.data.source} → {hoveredEdge.data.target}
+            </div>
+            {hoveredEdge.data.rawPath && <div>path: "{hoveredEdge.data.rawPath}"</div>}
+            {hoveredEdge.data.version && <div>version: "{hoveredEdge.data.version}"</div>}
+            {hoveredEdge.data.line !== undefined && <div>line {hoveredEdge.data.line}</div>}
+            {hoveredEdge.data.lines && hoveredEdge.data.lines.length > 0 && (
+              <div>
+                {hoveredEdge.data.count ?? hoveredEdge.data.lines.length} call(s) at L
+                {hoveredEdge.data.lines.join(", L")}
+              </div>
+            )}
+          </div>
+        )}
         {(loading || error) && (
           <div className="status-overlay" style={{ top: 82 }}>
             {loading ? "Loading graph.json..." : `Error: ${error}`}
@@ -2436,6 +3966,89 @@ export default function App() {
 
           {!selectedNode ? (
             <div className="details-row">No node selected.</div>
+          ) : selectedCallNode ? (
+            <>
+              <div className="details-row">
+                <span className="details-label">Symbol:</span> {selectedCallNode.name}
+              </div>
+              <div className="details-row">
+                <span className="details-label">Kind:</span> {selectedCallNode.kind}
+                {selectedCallNode.exported ? " (exported)" : " (module-private)"}
+              </div>
+              <div className="details-row">
+                <span className="details-label">Module:</span>{" "}
+                <button
+                  className="inline-link"
+                  onClick={() => focusModule(selectedCallNode.moduleId)}
+                  type="button"
+                >
+                  {selectedCallNode.moduleId}
+                </button>{" "}
+                ({formatLineRange(selectedCallNode.startLine, selectedCallNode.endLine)})
+              </div>
+              {selectedCallNode.metrics && (
+                <div className="details-row">
+                  <span className="details-label">Metrics:</span>{" "}
+                  {formatFunctionMetrics(selectedCallNode.metrics)}
+                </div>
+              )}
+              {selectedCallNode.overloads && (
+                <>
+                  <div className="details-row">
+                    <span className="details-label">
+                      Overloads ({selectedCallNode.overloads.length}):
+                    </span>
+                  </div>
+                  <ul className="details-list">
+                    {selectedCallNode.overloads.map((overload) => (
+                      <li className="details-list-item" key={overload.startLine}>
+                        {formatLineRange(overload.startLine, overload.endLine)}
+                        {overload.metrics && (
+                          <span className="link-meta">
+                            {" "}
+                            {formatFunctionMetrics(overload.metrics)}
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+              {selectedCallNodeDuplicates.map((cluster) => (
+                <Fragment key={`duplicates-${cluster.id}`}>
+                  <div className="details-row">
+                    <span className="details-label">Near-duplicates:</span>{" "}
+                    {Math.round(cluster.similarity * 100)}% similar
+                    {!selectedCallNode.exported &&
+                      cluster.members.some((member) => member.exported) &&
+                      " (an exported equivalent exists)"}
+                  </div>
+                  {renderDuplicateMembers(cluster, selectedCallNode.id)}
+                </Fragment>
+              ))}
+              {selectedCallNodeSymbols.map((symbol) => (
+                <Fragment key={`signature-${symbol.startLine}`}>
+                  <div className="details-row">
+                    <code className="symbol-signature">{formatSymbolSignature(symbol)}</code>
+                  </div>
+                  {symbol.doc && renderDocComment(symbol.doc)}
+                </Fragment>
+              ))}
+
+              <div className="details-row">
+                <span className="details-label">
+                  Callers ({selectedCallEdges.callers.length})
+                </span>
+              </div>
+              {renderCallLinks(selectedCallEdges.callers, "callers")}
+
+              <div className="details-row">
+                <span className="details-label">
+                  Callees ({selectedCallEdges.callees.length})
+                </span>
+              </div>
+              {renderCallLinks(selectedCallEdges.callees, "callees")}
+            </>
           ) : (
             <>
               <div className="details-row">
@@ -2471,6 +4084,11 @@ export default function App() {
                   selectedNode.filePath
                 )}
               </div>
+              {hasMultipleLibraries && selectedNode.library && (
+                <div className="details-row">
+                  <span className="details-label">Library:</span> {selectedNode.library}
+                </div>
+              )}
               <div className="details-row">
                 <span className="details-label">Module Path:</span> {selectedNode.modulePath}
               </div>
@@ -2489,40 +4107,202 @@ export default function App() {
               <div className="details-row">
                 <span className="details-label">Functions:</span> {selectedNode.functionCount}
               </div>
+              {selectedNode.complexity && (
+                <div className="details-row">
+                  <span className="details-label">Complexity:</span>{" "}
+                  {formatModuleComplexity(selectedNode.complexity)}
+                </div>
+              )}
+              {selectedNode.sccId !== undefined && (
+                <div className="details-row">
+                  <span className="details-label">Import Cycle:</span>{" "}
+                  <button
+                    className="inline-link"
+                    onClick={() => selectCycle(selectedNode.sccId ?? null)}
+                    type="button"
+                  >
+                    Cycle {selectedNode.sccId + 1}
+                  </button>{" "}
+                  ({cycleComponents[selectedNode.sccId]?.members.length ?? 0} modules)
+                </div>
+              )}
+              {graphDiff && renderModuleChange(selectedNode)}
+              {(violationsByModule.get(selectedNode.id) ?? []).map((violation, index) => (
+                <div className="details-row" key={`${violation.rule}-${index}`}>
+                  <span className="details-label">Rule:</span>{" "}
+                  <span className={`rule-${violation.severity}`}>{violation.rule}</span> ·{" "}
+                  {violation.message}
+                </div>
+              ))}
+              {selectedNode.visibleTo && (
+                <div className="details-row">
+                  <span className="details-label">Visible In:</span> {selectedVisibleTo.length}{" "}
+                  modules
+                </div>
+              )}
+              {selectedImportVersions.length > 0 && (
+                <div className="details-row">
+                  <span className="details-label">Imported At:</span>{" "}
+                  {selectedImportVersions
+                    .map(([version, count]) => `${version} (${count})`)
+                    .join(", ")}
+                  {selectedImportVersions.length > 1 && (
+                    <span className="version-warning"> inconsistent versions</span>
+                  )}
+                </div>
+              )}
+
+              {selectedNode.moduleDoc && (
+                <>
+                  <div className="details-row">
+                    <span className="details-label">Module Documentation</span>
+                  </div>
+                  {renderDocComment(selectedNode.moduleDoc)}
+                </>
+              )}
+
+              {(featuresByModule.get(selectedNode.id) ?? []).map((feature) => (
+                <Fragment key={feature.id}>
+                  <div className="details-row">
+                    <span className="details-label">
+                      Feature: {feature.featureTypeName ?? feature.name}
+                    </span>{" "}
+                    <code>{feature.name}</code>{" "}
+                    <span className="link-meta">
+                      {formatLineRange(feature.startLine, feature.endLine)}
+                    </span>
+                  </div>
+                  {renderFeatureParameters(feature)}
+                </Fragment>
+              ))}
+
+              {selectedNodeDuplicates.map(({ member, cluster }) => (
+                <Fragment key={`${member.symbolId}:${member.startLine}`}>
+                  <div className="details-row">
+                    <span className="details-label">Near-duplicate:</span>{" "}
+                    <code>{member.name}</code>{" "}
+                    <span className="link-meta">
+                      {formatLineRange(member.startLine, member.endLine)},{" "}
+                      {Math.round(cluster.similarity * 100)}% similar
+                    </span>
+                  </div>
+                  {renderDuplicateMembers(cluster, member)}
+                </Fragment>
+              ))}
 
               <div className="details-row">
                 <span className="details-label">Import Targets</span>
               </div>
-              {renderModuleLinks(selectedNode.imports, selectedNode.importTargets)}
+              {renderModuleLinks(
+                selectedNode.id,
+                "import",
+                selectedNode.imports,
+                selectedNode.importTargets
+              )}
 
               <div className="details-row">
                 <span className="details-label">Reexport Targets</span>
               </div>
-              {renderModuleLinks(selectedNode.reexports, selectedNode.reexportTargets)}
+              {renderModuleLinks(
+                selectedNode.id,
+                "reexport",
+                selectedNode.reexports,
+                selectedNode.reexportTargets
+              )}
 
               <div className="details-row">
                 <span className="details-label">Exported Symbols</span>
               </div>
-              <div>
-                {selectedNode.exports.length === 0
-                  ? "None"
-                  : selectedNode.exports.map((symbol) => (
+              {selectedNode.symbols && selectedNode.symbols.length > 0 ? (
+                <ul className="symbol-list">
+                  {selectedNode.symbols.map((symbol) => (
+                    <li key={`${symbol.name}:${symbol.startLine}`}>
                       <button
-                        className={`export-pill export-symbol-button${
-                          selectedExportSymbol === symbol ? " active" : ""
+                        className={`symbol-button${
+                          selectedExportSymbol === symbol.name ? " active" : ""
                         }`}
-                        key={symbol}
                         onClick={() =>
                           setSelectedExportSymbol((previous) =>
-                            previous === symbol ? null : symbol
+                            previous === symbol.name ? null : symbol.name
                           )
                         }
                         type="button"
                       >
-                        {symbol}
+                        <span className="symbol-meta">
+                          <span className="symbol-kind">{symbol.kind}</span>
+                          <span className="symbol-lines">
+                            {formatLineRange(symbol.startLine, symbol.endLine)}
+                          </span>
+                        </span>
+                        <code className="symbol-signature">{formatSymbolSignature(symbol)}</code>
                       </button>
-                    ))}
-              </div>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <div>
+                  {selectedNode.exports.length === 0
+                    ? "None"
+                    : selectedNode.exports.map((symbol) => (
+                        <button
+                          className={`export-pill export-symbol-button${
+                            selectedExportSymbol === symbol ? " active" : ""
+                          }`}
+                          key={symbol}
+                          onClick={() =>
+                            setSelectedExportSymbol((previous) =>
+                              previous === symbol ? null : symbol
+                            )
+                          }
+                          type="button"
+                        >
+                          {symbol}
+                        </button>
+                      ))}
+                </div>
+              )}
+
+              {selectedExportSymbol &&
+                callGraphNodeById.has(`${selectedNode.id}#${selectedExportSymbol}`) && (
+                  <div className="details-row" style={{ marginTop: 12 }}>
+                    <button
+                      className="inline-link"
+                      onClick={() => focusSymbol(selectedNode.id, selectedExportSymbol)}
+                      type="button"
+                    >
+                      Show `{selectedExportSymbol}` callers and callees
+                    </button>
+                  </div>
+                )}
+
+              {selectedSymbolRecords.map(
+                (symbol) =>
+                  symbol.doc && (
+                    <Fragment key={`doc-${symbol.startLine}`}>
+                      <div className="details-row" style={{ marginTop: 12 }}>
+                        <span className="details-label">
+                          <code>{symbol.name}</code> Documentation
+                        </span>
+                        {selectedSymbolRecords.length > 1 && (
+                          <span className="link-meta">
+                            {" "}
+                            {formatLineRange(symbol.startLine, symbol.endLine)}
+                          </span>
+                        )}
+                      </div>
+                      {renderDocComment(symbol.doc)}
+                    </Fragment>
+                  )
+              )}
+
+              {selectedTypeRecord && (
+                <>
+                  <div className="details-row" style={{ marginTop: 12 }}>
+                    <span className="details-label">`{selectedTypeRecord.name}` Type</span>
+                  </div>
+                  {renderTypeDetails(selectedNode, selectedTypeRecord)}
+                </>
+              )}
 
               {selectedExportSymbol && (
                 <>
@@ -2531,23 +4311,55 @@ export default function App() {
                   </div>
                   {selectedSymbolUsers.length === 0 ? (
                     <div className="details-row">
-                      No direct-import usage found in indexed modules.
+                      No usage found in indexed modules.
                     </div>
                   ) : (
                     <ul className="details-list">
-                      {selectedSymbolUsers.map((userId) => (
-                        <li className="details-list-item" key={userId}>
-                          <button
-                            className="inline-link"
-                            onClick={() => focusNode(userId)}
-                            type="button"
-                          >
-                            {userId}
-                          </button>
-                        </li>
-                      ))}
+                      {selectedSymbolUsers.map((userId) => {
+                        const via = selectedNode.visibleTo?.[userId];
+                        return (
+                          <li className="details-list-item" key={userId}>
+                            <button
+                              className="inline-link"
+                              onClick={() => focusNode(userId)}
+                              type="button"
+                            >
+                              {userId}
+                            </button>
+                            {via && <span className="link-meta"> {formatReexportPath(via)}</span>}
+                          </li>
+                        );
+                      })}
                     </ul>
                   )}
+
+                  {selectedNode.visibleTo && (
+                    <>
+                      <div className="details-row">
+                        <span className="details-label">
+                          Modules That Can See `{selectedExportSymbol}` ({selectedVisibleTo.length})
+                        </span>
+                      </div>
+                      {selectedVisibleTo.length === 0 ? (
+                        <div className="details-row">None</div>
+                      ) : (
+                        <ul className="details-list">
+                          {selectedVisibleTo.map(([moduleId, via]) => (
+                            <li className="details-list-item" key={moduleId}>
+                              <button
+                                className="inline-link"
+                                onClick={() => focusNode(moduleId)}
+                                type="button"
+                              >
+                                {moduleId}
+                              </button>
+                              <span className="link-meta"> {formatReexportPath(via)}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </>
+                  )}
                 </>
               )}
             </>
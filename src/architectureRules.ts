@@ -0,0 +1,275 @@
+import type { EdgeKind, GraphJson, GraphNodeData } from "./types";
+
+export type RuleSeverity = "error" | "warning";
+
+/** Picks modules by id glob (`**` crosses folders, `*` does not), library and generated-ness. */
+export interface ModuleSelector {
+  path?: string;
+  library?: string;
+  generated?: boolean;
+}
+
+interface RuleBase {
+  name: string;
+  severity: RuleSeverity;
+}
+
+export interface ForbiddenDependencyRule extends RuleBase {
+  type: "forbid";
+  from: ModuleSelector;
+  to: ModuleSelector;
+  /** Edge kinds the rule applies to; both import and reexport when omitted. */
+  kinds: EdgeKind[];
+}
+
+export interface MaxDependencyCountRule extends RuleBase {
+  type: "max-fan-out" | "max-fan-in";
+  max: number;
+  modules: ModuleSelector;
+}
+
+export interface NoCyclesRule extends RuleBase {
+  type: "no-cycles";
+  modules: ModuleSelector;
+}
+
+export type ArchitectureRule = ForbiddenDependencyRule | MaxDependencyCountRule | NoCyclesRule;
+
+export interface RuleViolation {
+  rule: string;
+  severity: RuleSeverity;
+  moduleId: string;
+  /** Set for violations caused by a single dependency. */
+  edgeId?: string;
+  message: string;
+}
+
+type JsonObject = Record<string, unknown>;
+
+const RULE_TYPES = ["forbid", "max-fan-out", "max-fan-in", "no-cycles"];
+const MODULE_EDGE_KINDS: EdgeKind[] = ["import", "reexport"];
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function globToRegExp(glob: string): RegExp {
+  let pattern = "";
+  for (let i = 0; i < glob.length; i += 1) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      // `**/` also matches zero folders, so `**/x.fs` matches a top-level `x.fs`.
+      pattern += glob[i + 2] === "/" ? "(?:.*/)?" : ".*";
+      i += glob[i + 2] === "/" ? 2 : 1;
+    } else if (char === "*") {
+      pattern += "[^/]*";
+    } else if (char === "?") {
+      pattern += "[^/]";
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+function parseSelector(value: unknown, path: string, problems: string[]): ModuleSelector {
+  if (value === undefined) {
+    return {};
+  }
+  if (typeof value === "string") {
+    return { path: value };
+  }
+  if (!isObject(value)) {
+    problems.push(`${path} must be a path glob or an object`);
+    return {};
+  }
+
+  const selector: ModuleSelector = {};
+  if (value.path !== undefined) {
+    if (typeof value.path === "string") {
+      selector.path = value.path;
+    } else {
+      problems.push(`${path}.path must be a string`);
+    }
+  }
+  if (value.library !== undefined) {
+    if (typeof value.library === "string") {
+      selector.library = value.library;
+    } else {
+      problems.push(`${path}.library must be a string`);
+    }
+  }
+  if (value.generated !== undefined) {
+    if (typeof value.generated === "boolean") {
+      selector.generated = value.generated;
+    } else {
+      problems.push(`${path}.generated must be a boolean`);
+    }
+  }
+  return selector;
+}
+
+function parseRule(value: unknown, index: number, problems: string[]): ArchitectureRule | null {
+  const path = `rules[${index}]`;
+  if (!isObject(value)) {
+    problems.push(`${path} must be an object`);
+    return null;
+  }
+  if (typeof value.type !== "string" || !RULE_TYPES.includes(value.type)) {
+    problems.push(`${path}.type must be one of ${RULE_TYPES.join(", ")}`);
+    return null;
+  }
+  if (value.name !== undefined && typeof value.name !== "string") {
+    problems.push(`${path}.name must be a string`);
+  }
+  if (value.severity !== undefined && value.severity !== "error" && value.severity !== "warning") {
+    problems.push(`${path}.severity must be "error" or "warning"`);
+  }
+
+  const base: RuleBase = {
+    name: typeof value.name === "string" ? value.name : `${value.type} #${index + 1}`,
+    severity: value.severity === "warning" ? "warning" : "error"
+  };
+
+  if (value.type === "forbid") {
+    if (value.from === undefined || value.to === undefined) {
+      problems.push(`${path} needs both "from" and "to"`);
+    }
+    let kinds = MODULE_EDGE_KINDS;
+    if (value.kinds !== undefined) {
+      const valid =
+        Array.isArray(value.kinds) &&
+        value.kinds.every((kind) => MODULE_EDGE_KINDS.includes(kind as EdgeKind));
+      if (valid) {
+        kinds = value.kinds as EdgeKind[];
+      } else {
+        problems.push(`${path}.kinds must list "import" and/or "reexport"`);
+      }
+    }
+    return {
+      ...base,
+      type: "forbid",
+      from: parseSelector(value.from, `${path}.from`, problems),
+      to: parseSelector(value.to, `${path}.to`, problems),
+      kinds
+    };
+  }
+
+  const modules = parseSelector(value.modules, `${path}.modules`, problems);
+  if (value.type === "no-cycles") {
+    return { ...base, type: "no-cycles", modules };
+  }
+
+  if (typeof value.max !== "number" || !Number.isInteger(value.max) || value.max < 0) {
+    problems.push(`${path}.max must be a non-negative integer`);
+  }
+  return {
+    ...base,
+    type: value.type as MaxDependencyCountRule["type"],
+    max: typeof value.max === "number" ? value.max : 0,
+    modules
+  };
+}
+
+/** Validates a parsed rules file (`{ "rules": [...] }`), throwing with every problem found. */
+export function parseArchitectureRules(value: unknown, source = "rules file"): ArchitectureRule[] {
+  if (!isObject(value) || !Array.isArray(value.rules)) {
+    throw new Error(`${source} must be a JSON object with a "rules" array`);
+  }
+
+  const problems: string[] = [];
+  const rules = value.rules
+    .map((rule, index) => parseRule(rule, index, problems))
+    .filter((rule): rule is ArchitectureRule => rule !== null);
+  if (problems.length > 0) {
+    throw new Error(`${source} is not a valid rules file: ${problems.join("; ")}`);
+  }
+  return rules;
+}
+
+function createMatcher(selector: ModuleSelector): (node: GraphNodeData) => boolean {
+  const pathPattern = selector.path ? globToRegExp(selector.path) : null;
+  return (node) =>
+    (!pathPattern || pathPattern.test(node.id)) &&
+    (selector.library === undefined || node.library === selector.library) &&
+    (selector.generated === undefined ||
+      (node.isGenerated ?? node.id.toLowerCase().endsWith(".gen.fs")) === selector.generated);
+}
+
+/**
+ * Evaluates rules against the module graph. Unresolved (virtual) modules are never matched, since
+ * they have no library or file to attribute a violation to.
+ */
+export function checkArchitectureRules(
+  graph: GraphJson,
+  rules: ArchitectureRule[]
+): RuleViolation[] {
+  const nodeById = new Map<string, GraphNodeData>();
+  for (const { data } of graph.elements.nodes) {
+    if (!data.isVirtual) {
+      nodeById.set(data.id, data);
+    }
+  }
+
+  const targetsBySource = new Map<string, Set<string>>();
+  const sourcesByTarget = new Map<string, Set<string>>();
+  for (const { data } of graph.elements.edges) {
+    if (!MODULE_EDGE_KINDS.includes(data.kind)) {
+      continue;
+    }
+    const targets = targetsBySource.get(data.source) ?? new Set<string>();
+    targetsBySource.set(data.source, targets.add(data.target));
+    const sources = sourcesByTarget.get(data.target) ?? new Set<string>();
+    sourcesByTarget.set(data.target, sources.add(data.source));
+  }
+
+  const violations: RuleViolation[] = [];
+  for (const rule of rules) {
+    const violation = (moduleId: string, message: string, edgeId?: string): void => {
+      violations.push({ rule: rule.name, severity: rule.severity, moduleId, edgeId, message });
+    };
+
+    if (rule.type === "forbid") {
+      const matchesFrom = createMatcher(rule.from);
+      const matchesTo = createMatcher(rule.to);
+      for (const { data } of graph.elements.edges) {
+        const source = nodeById.get(data.source);
+        const target = nodeById.get(data.target);
+        if (
+          source &&
+          target &&
+          rule.kinds.includes(data.kind) &&
+          matchesFrom(source) &&
+          matchesTo(target)
+        ) {
+          violation(source.id, `${source.id} ${data.kind}s ${target.id}`, data.id);
+        }
+      }
+      continue;
+    }
+
+    const matchesModule = createMatcher(rule.modules);
+    for (const node of nodeById.values()) {
+      if (!matchesModule(node)) {
+        continue;
+      }
+
+      if (rule.type === "no-cycles") {
+        if (node.sccId !== undefined) {
+          violation(node.id, `${node.id} is part of import cycle ${node.sccId + 1}`);
+        }
+        continue;
+      }
+
+      const neighbors =
+        rule.type === "max-fan-out" ? targetsBySource.get(node.id) : sourcesByTarget.get(node.id);
+      const count = neighbors?.size ?? 0;
+      if (count > rule.max) {
+        const noun = rule.type === "max-fan-out" ? "dependencies" : "dependents";
+        violation(node.id, `${node.id} has ${count} ${noun} (max ${rule.max})`);
+      }
+    }
+  }
+
+  return violations;
+}
@@ -0,0 +1,182 @@
+import { toEdgeId } from "./graphSchema";
+import { compareStrings } from "./graphTraversal";
+import type { GraphEdgeData, GraphJson, GraphNodeData } from "./types";
+
+export type ModuleEdgeKind = "import" | "reexport";
+
+export interface ModuleEdgeRef {
+  kind: ModuleEdgeKind;
+  source: string;
+  target: string;
+}
+
+export interface ModuleSummary {
+  id: string;
+  loc: number;
+  functionCount: number;
+  exportCount: number;
+}
+
+export interface ModuleChange {
+  id: string;
+  exportsAdded: string[];
+  exportsRemoved: string[];
+  locBefore: number;
+  locAfter: number;
+  functionCountBefore: number;
+  functionCountAfter: number;
+}
+
+export interface GraphSnapshotInfo {
+  generatedAt?: string;
+  gitRef?: string;
+  commit?: string;
+  moduleCount: number;
+  edgeCount: number;
+  loc: number;
+  functionCount: number;
+}
+
+export interface GraphDiff {
+  before: GraphSnapshotInfo;
+  after: GraphSnapshotInfo;
+  addedModules: ModuleSummary[];
+  removedModules: ModuleSummary[];
+  addedEdges: ModuleEdgeRef[];
+  removedEdges: ModuleEdgeRef[];
+  changedModules: ModuleChange[];
+}
+
+function moduleNodesById(graph: GraphJson): Map<string, GraphNodeData> {
+  const modules = new Map<string, GraphNodeData>();
+  for (const node of graph.elements.nodes) {
+    if (!node.data.isVirtual) {
+      modules.set(node.data.id, node.data);
+    }
+  }
+  return modules;
+}
+
+/** The edge id, derived from kind and endpoints, so it also works for refs that carry no id. */
+export function moduleEdgeKey(edge: Pick<GraphEdgeData, "kind" | "source" | "target">): string {
+  return toEdgeId(edge.kind, edge.source, edge.target);
+}
+
+function toModuleEdgeRef(data: GraphEdgeData, kind: ModuleEdgeKind): ModuleEdgeRef {
+  return { kind, source: data.source, target: data.target };
+}
+
+function moduleEdgesByKey(graph: GraphJson): Map<string, ModuleEdgeRef> {
+  const edges = new Map<string, ModuleEdgeRef>();
+  for (const { data } of graph.elements.edges) {
+    if (data.kind === "import" || data.kind === "reexport") {
+      const edge = toModuleEdgeRef(data, data.kind);
+      edges.set(moduleEdgeKey(edge), edge);
+    }
+  }
+  return edges;
+}
+
+function toModuleSummary(node: GraphNodeData): ModuleSummary {
+  return {
+    id: node.id,
+    loc: node.loc,
+    functionCount: node.functionCount,
+    exportCount: node.exportCount
+  };
+}
+
+function describeSnapshot(
+  graph: GraphJson,
+  modules: Map<string, GraphNodeData>,
+  edgeCount: number
+): GraphSnapshotInfo {
+  let loc = 0;
+  let functionCount = 0;
+  for (const node of modules.values()) {
+    loc += node.loc;
+    functionCount += node.functionCount;
+  }
+
+  const primaryLibrary = graph.libraries?.[0];
+  return {
+    generatedAt: graph.generatedAt,
+    gitRef: primaryLibrary?.gitRef,
+    commit: primaryLibrary?.commit,
+    moduleCount: modules.size,
+    edgeCount,
+    loc,
+    functionCount
+  };
+}
+
+function compareEdges(a: ModuleEdgeRef, b: ModuleEdgeRef): number {
+  return (
+    compareStrings(a.source, b.source) ||
+    compareStrings(a.target, b.target) ||
+    compareStrings(a.kind, b.kind)
+  );
+}
+
+/**
+ * Compares two module graphs. Modules are matched by id and edges by kind and endpoints; a module
+ * present in both counts as changed when its exports, LOC or function count differ.
+ */
+export function computeGraphDiff(before: GraphJson, after: GraphJson): GraphDiff {
+  const beforeModules = moduleNodesById(before);
+  const afterModules = moduleNodesById(after);
+  const beforeEdges = moduleEdgesByKey(before);
+  const afterEdges = moduleEdgesByKey(after);
+
+  const addedModules = [...afterModules.values()]
+    .filter((node) => !beforeModules.has(node.id))
+    .map(toModuleSummary);
+  const removedModules = [...beforeModules.values()]
+    .filter((node) => !afterModules.has(node.id))
+    .map(toModuleSummary);
+  const addedEdges = [...afterEdges]
+    .filter(([key]) => !beforeEdges.has(key))
+    .map(([, edge]) => edge);
+  const removedEdges = [...beforeEdges]
+    .filter(([key]) => !afterEdges.has(key))
+    .map(([, edge]) => edge);
+
+  const changedModules: ModuleChange[] = [];
+  for (const [id, afterNode] of afterModules) {
+    const beforeNode = beforeModules.get(id);
+    if (!beforeNode) {
+      continue;
+    }
+
+    const beforeExports = new Set(beforeNode.exports);
+    const afterExports = new Set(afterNode.exports);
+    const change: ModuleChange = {
+      id,
+      exportsAdded: afterNode.exports.filter((name) => !beforeExports.has(name)).sort(),
+      exportsRemoved: beforeNode.exports.filter((name) => !afterExports.has(name)).sort(),
+      locBefore: beforeNode.loc,
+      locAfter: afterNode.loc,
+      functionCountBefore: beforeNode.functionCount,
+      functionCountAfter: afterNode.functionCount
+    };
+
+    if (
+      change.exportsAdded.length > 0 ||
+      change.exportsRemoved.length > 0 ||
+      change.locBefore !== change.locAfter ||
+      change.functionCountBefore !== change.functionCountAfter
+    ) {
+      changedModules.push(change);
+    }
+  }
+
+  return {
+    before: describeSnapshot(before, beforeModules, beforeEdges.size),
+    after: describeSnapshot(after, afterModules, afterEdges.size),
+    addedModules: addedModules.sort((a, b) => compareStrings(a.id, b.id)),
+    removedModules: removedModules.sort((a, b) => compareStrings(a.id, b.id)),
+    addedEdges: addedEdges.sort(compareEdges),
+    removedEdges: removedEdges.sort(compareEdges),
+    changedModules: changedModules.sort((a, b) => compareStrings(a.id, b.id))
+  };
+}
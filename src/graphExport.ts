@@ -0,0 +1,323 @@
+import type { GraphEdgeData } from "./types";
+
+export type ExportFormat = "dot" | "graphml" | "gexf" | "mermaid" | "csv";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["dot", "graphml", "gexf", "mermaid", "csv"];
+
+export interface ExportNode {
+  id: string;
+  label: string;
+}
+
+export interface ExportedFile {
+  /** Appended to the base file name, e.g. `-nodes` for the node table of a CSV export. */
+  suffix: string;
+  extension: string;
+  mimeType: string;
+  content: string;
+}
+
+type AttributeType = "string" | "integer" | "double" | "boolean";
+
+interface AttributeColumn {
+  name: string;
+  type: AttributeType;
+}
+
+// Carried natively by every format (element id/label, edge endpoints), so not repeated as data.
+const NODE_BUILTIN_FIELDS = new Set(["id", "label"]);
+const EDGE_BUILTIN_FIELDS = new Set(["id", "source", "target"]);
+
+function toRecord(value: object): Record<string, unknown> {
+  return value as Record<string, unknown>;
+}
+
+/** Collects every attribute present on any element, typed by the values seen for it. */
+function collectColumns(items: object[], builtins: Set<string>): AttributeColumn[] {
+  const types = new Map<string, Set<string>>();
+
+  for (const item of items) {
+    for (const [name, value] of Object.entries(item)) {
+      if (builtins.has(name) || value === undefined || value === null) {
+        continue;
+      }
+
+      const seen = types.get(name) ?? new Set<string>();
+      if (typeof value === "number") {
+        seen.add(Number.isInteger(value) ? "integer" : "double");
+      } else if (typeof value === "boolean") {
+        seen.add("boolean");
+      } else {
+        seen.add("string");
+      }
+      types.set(name, seen);
+    }
+  }
+
+  return [...types].map(([name, seen]) => {
+    let type: AttributeType = "string";
+    if (seen.size === 1) {
+      type = [...seen][0] as AttributeType;
+    } else if (seen.size === 2 && seen.has("integer") && seen.has("double")) {
+      type = "double";
+    }
+    return { name, type };
+  });
+}
+
+/** Scalars are written as-is; arrays and objects (imports, symbols, ...) as JSON. */
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  if (typeof value === "string") {
+    return value;
+  }
+  if (typeof value === "number" || typeof value === "boolean") {
+    return String(value);
+  }
+  return JSON.stringify(value);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/\n/g, "&#10;");
+}
+
+function quoteDot(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`;
+}
+
+function quoteCsv(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function exportDot(nodes: ExportNode[], edges: GraphEdgeData[]): string {
+  const nodeColumns = collectColumns(nodes, NODE_BUILTIN_FIELDS);
+  const edgeColumns = collectColumns(edges, EDGE_BUILTIN_FIELDS);
+  const attributes = (item: object, columns: AttributeColumn[]): string[] =>
+    columns
+      .filter((column) => toRecord(item)[column.name] !== undefined)
+      .map((column) => `${column.name}=${quoteDot(formatValue(toRecord(item)[column.name]))}`);
+
+  const lines = ["digraph featurescript {", "  rankdir=LR;", "  node [shape=box];"];
+  for (const node of nodes) {
+    const nodeAttributes = [`label=${quoteDot(node.label)}`, ...attributes(node, nodeColumns)];
+    lines.push(`  ${quoteDot(node.id)} [${nodeAttributes.join(", ")}];`);
+  }
+  for (const edge of edges) {
+    const edgeAttributes = [`id=${quoteDot(edge.id)}`, ...attributes(edge, edgeColumns)];
+    lines.push(
+      `  ${quoteDot(edge.source)} -> ${quoteDot(edge.target)} [${edgeAttributes.join(", ")}];`
+    );
+  }
+  lines.push("}");
+  return `${lines.join("\n")}\n`;
+}
+
+function exportGraphMl(nodes: ExportNode[], edges: GraphEdgeData[]): string {
+  const nodeColumns = collectColumns(nodes, NODE_BUILTIN_FIELDS);
+  const edgeColumns = collectColumns(edges, EDGE_BUILTIN_FIELDS);
+  const graphMlType = (type: AttributeType): string =>
+    type === "integer" ? "long" : type === "double" ? "double" : type;
+  const dataElements = (item: object, prefix: string, columns: AttributeColumn[]): string[] =>
+    columns
+      .filter((column) => toRecord(item)[column.name] !== undefined)
+      .map(
+        (column) =>
+          `      <data key="${prefix}_${escapeXml(column.name)}">` +
+          `${escapeXml(formatValue(toRecord(item)[column.name]))}</data>`
+      );
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="n_label" for="node" attr.name="label" attr.type="string"/>',
+    ...nodeColumns.map(
+      (column) =>
+        `  <key id="n_${escapeXml(column.name)}" for="node" ` +
+        `attr.name="${escapeXml(column.name)}" attr.type="${graphMlType(column.type)}"/>`
+    ),
+    ...edgeColumns.map(
+      (column) =>
+        `  <key id="e_${escapeXml(column.name)}" for="edge" ` +
+        `attr.name="${escapeXml(column.name)}" attr.type="${graphMlType(column.type)}"/>`
+    ),
+    '  <graph id="featurescript" edgedefault="directed">'
+  ];
+  for (const node of nodes) {
+    lines.push(
+      `    <node id="${escapeXml(node.id)}">`,
+      `      <data key="n_label">${escapeXml(node.label)}</data>`,
+      ...dataElements(node, "n", nodeColumns),
+      "    </node>"
+    );
+  }
+  for (const edge of edges) {
+    lines.push(
+      `    <edge id="${escapeXml(edge.id)}" source="${escapeXml(edge.source)}" ` +
+        `target="${escapeXml(edge.target)}">`,
+      ...dataElements(edge, "e", edgeColumns),
+      "    </edge>"
+    );
+  }
+  lines.push("  </graph>", "</graphml>");
+  return `${lines.join("\n")}\n`;
+}
+
+function exportGexf(nodes: ExportNode[], edges: GraphEdgeData[]): string {
+  const nodeColumns = collectColumns(nodes, NODE_BUILTIN_FIELDS);
+  const edgeColumns = collectColumns(edges, EDGE_BUILTIN_FIELDS);
+  const declarations = (className: string, columns: AttributeColumn[]): string[] => [
+    `    <attributes class="${className}">`,
+    ...columns.map(
+      (column, index) =>
+        `      <attribute id="${index}" title="${escapeXml(column.name)}" type="${column.type}"/>`
+    ),
+    "    </attributes>"
+  ];
+  const values = (item: object, columns: AttributeColumn[]): string[] => {
+    const entries = columns.flatMap((column, index) => {
+      const value = toRecord(item)[column.name];
+      return value === undefined
+        ? []
+        : [`          <attvalue for="${index}" value="${escapeXml(formatValue(value))}"/>`];
+    });
+    return entries.length > 0 ? ["        <attvalues>", ...entries, "        </attvalues>"] : [];
+  };
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" version="1.3">',
+    '  <graph defaultedgetype="directed" mode="static">',
+    ...declarations("node", nodeColumns),
+    ...declarations("edge", edgeColumns),
+    "    <nodes>"
+  ];
+  for (const node of nodes) {
+    lines.push(
+      `      <node id="${escapeXml(node.id)}" label="${escapeXml(node.label)}">`,
+      ...values(node, nodeColumns),
+      "      </node>"
+    );
+  }
+  lines.push("    </nodes>", "    <edges>");
+  for (const edge of edges) {
+    lines.push(
+      `      <edge id="${escapeXml(edge.id)}" source="${escapeXml(edge.source)}" ` +
+        `target="${escapeXml(edge.target)}" label="${escapeXml(edge.kind)}">`,
+      ...values(edge, edgeColumns),
+      "      </edge>"
+    );
+  }
+  lines.push("    </edges>", "  </graph>", "</gexf>");
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Mermaid ids must be plain identifiers, so nodes are numbered. Mermaid has no attribute model;
+ * only labels and edge kinds survive, which is enough for pasting into docs.
+ */
+function exportMermaid(nodes: ExportNode[], edges: GraphEdgeData[]): string {
+  const mermaidIds = new Map(nodes.map((node, index) => [node.id, `n${index}`]));
+  const escapeLabel = (value: string): string => value.replace(/"/g, "#quot;");
+  const arrowByKind: Record<GraphEdgeData["kind"], string> = {
+    import: "-.->",
+    reexport: "==>",
+    call: "-->"
+  };
+
+  const lines = ["flowchart LR"];
+  for (const node of nodes) {
+    lines.push(`  ${mermaidIds.get(node.id)}["${escapeLabel(node.label)}"]`);
+  }
+  for (const edge of edges) {
+    const source = mermaidIds.get(edge.source);
+    const target = mermaidIds.get(edge.target);
+    if (source && target) {
+      lines.push(`  ${source} ${arrowByKind[edge.kind]}|${edge.kind}| ${target}`);
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+function exportCsvTable(items: object[], leadingColumns: string[], builtins: Set<string>): string {
+  const columns = [
+    ...leadingColumns,
+    ...collectColumns(items, builtins).map((column) => column.name)
+  ];
+  const rows = items.map((item) =>
+    columns.map((column) => quoteCsv(formatValue(toRecord(item)[column]))).join(",")
+  );
+  return `${[columns.join(","), ...rows].join("\n")}\n`;
+}
+
+/**
+ * Serializes nodes and edges to one of the supported interchange formats. Every attribute on the
+ * node/edge data is carried over; CSV produces separate node and edge tables.
+ */
+export function exportGraph(
+  nodes: ExportNode[],
+  edges: GraphEdgeData[],
+  format: ExportFormat
+): ExportedFile[] {
+  if (format === "dot") {
+    return [
+      {
+        suffix: "",
+        extension: "dot",
+        mimeType: "text/vnd.graphviz",
+        content: exportDot(nodes, edges)
+      }
+    ];
+  }
+  if (format === "graphml") {
+    return [
+      {
+        suffix: "",
+        extension: "graphml",
+        mimeType: "application/graphml+xml",
+        content: exportGraphMl(nodes, edges)
+      }
+    ];
+  }
+  if (format === "gexf") {
+    return [
+      {
+        suffix: "",
+        extension: "gexf",
+        mimeType: "application/gexf+xml",
+        content: exportGexf(nodes, edges)
+      }
+    ];
+  }
+  if (format === "mermaid") {
+    return [
+      {
+        suffix: "",
+        extension: "mmd",
+        mimeType: "text/plain",
+        content: exportMermaid(nodes, edges)
+      }
+    ];
+  }
+
+  return [
+    {
+      suffix: "-nodes",
+      extension: "csv",
+      mimeType: "text/csv",
+      content: exportCsvTable(nodes, ["id", "label"], NODE_BUILTIN_FIELDS)
+    },
+    {
+      suffix: "-edges",
+      extension: "csv",
+      mimeType: "text/csv",
+      content: exportCsvTable(edges, ["id", "source", "target"], EDGE_BUILTIN_FIELDS)
+    }
+  ];
+}
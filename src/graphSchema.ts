@@ -0,0 +1,348 @@
+import { findCycles } from "./graphTraversal";
+import type { EdgeKind, GraphEdgeData, GraphJson } from "./types";
+
+/**
+ * Version of the graph.json layout written by the indexer. Bump it whenever the shape changes in
+ * a way older readers would misinterpret, and register a migration from the previous version.
+ */
+export const GRAPH_SCHEMA_VERSION = 4;
+
+type JsonObject = Record<string, unknown>;
+
+const MAX_REPORTED_PROBLEMS = 5;
+const EDGE_KINDS = new Set(["import", "reexport", "call"]);
+const NODE_STRING_FIELDS = ["id", "label", "filePath", "modulePath"];
+const NODE_NUMBER_FIELDS = ["loc", "functionCount", "importCount", "reexportCount", "exportCount"];
+const NODE_STRING_ARRAY_FIELDS = [
+  "imports",
+  "reexports",
+  "importTargets",
+  "reexportTargets",
+  "exports"
+];
+
+/**
+ * Edge ids are derived from the edge itself, so they stay put when unrelated modules change and
+ * can be referenced from URLs. Each kind/source/target triple appears at most once per graph.
+ */
+export function toEdgeId(kind: EdgeKind, source: string, target: string): string {
+  return `${kind}:${source}->${target}`;
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): boolean {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+/**
+ * Graphs written before `schemaVersion` existed omit fields that older indexers did not emit
+ * (derived counts, resolved targets, module paths). Fill them in from what the file does have.
+ */
+function migrateFromVersion1(graph: JsonObject): JsonObject {
+  const elements = isObject(graph.elements) ? graph.elements : {};
+  const nodes = Array.isArray(elements.nodes) ? elements.nodes : [];
+
+  return {
+    ...graph,
+    schemaVersion: 2,
+    elements: {
+      ...elements,
+      nodes: nodes.map((node: unknown) => {
+        if (!isObject(node) || !isObject(node.data)) {
+          return node;
+        }
+
+        const data = node.data;
+        const imports = isStringArray(data.imports) ? (data.imports as string[]) : [];
+        const reexports = isStringArray(data.reexports) ? (data.reexports as string[]) : [];
+        const exports = isStringArray(data.exports) ? (data.exports as string[]) : [];
+        return {
+          ...node,
+          data: {
+            modulePath: data.filePath,
+            loc: 0,
+            functionCount: 0,
+            imports,
+            reexports,
+            importTargets: imports,
+            reexportTargets: reexports,
+            importCount: imports.length,
+            reexportCount: reexports.length,
+            exports,
+            exportCount: exports.length,
+            ...data
+          }
+        };
+      })
+    }
+  };
+}
+
+function withDerivedEdgeIds(edges: unknown): unknown {
+  if (!Array.isArray(edges)) {
+    return edges;
+  }
+
+  return edges.map((edge: unknown) => {
+    if (!isObject(edge) || !isObject(edge.data)) {
+      return edge;
+    }
+
+    const { kind, source, target } = edge.data;
+    if (typeof kind !== "string" || !EDGE_KINDS.has(kind)) {
+      return edge;
+    }
+    return {
+      ...edge,
+      data: { ...edge.data, id: toEdgeId(kind as EdgeKind, String(source), String(target)) }
+    };
+  });
+}
+
+/** Version 2 numbered edges in discovery order; version 3 derives them via `toEdgeId`. */
+function migrateFromVersion2(graph: JsonObject): JsonObject {
+  const elements = isObject(graph.elements) ? graph.elements : {};
+  const callGraph = isObject(graph.callGraph) ? graph.callGraph : undefined;
+
+  return {
+    ...graph,
+    schemaVersion: 3,
+    elements: { ...elements, edges: withDerivedEdgeIds(elements.edges) },
+    ...(callGraph
+      ? { callGraph: { ...callGraph, edges: withDerivedEdgeIds(callGraph.edges) } }
+      : {})
+  };
+}
+
+/** Version 4 marks import cycles: `sccId` on modules inside one and `isBackEdge` on edges. */
+function migrateFromVersion3(graph: JsonObject): JsonObject {
+  const elements = isObject(graph.elements) ? graph.elements : {};
+  if (!Array.isArray(elements.nodes) || !Array.isArray(elements.edges)) {
+    return { ...graph, schemaVersion: 4 };
+  }
+
+  const nodeIds = elements.nodes.flatMap((node: unknown) =>
+    isObject(node) && isObject(node.data) && typeof node.data.id === "string"
+      ? [node.data.id]
+      : []
+  );
+  const edges = elements.edges.flatMap((edge: unknown) =>
+    isObject(edge) && isObject(edge.data) ? [edge.data as unknown as GraphEdgeData] : []
+  );
+  const cycles = findCycles(nodeIds, edges);
+  const sccIdByNode = new Map<string, number>();
+  cycles.components.forEach((component, sccId) => {
+    for (const id of component) {
+      sccIdByNode.set(id, sccId);
+    }
+  });
+
+  return {
+    ...graph,
+    schemaVersion: 4,
+    elements: {
+      ...elements,
+      nodes: elements.nodes.map((node: unknown) => {
+        if (!isObject(node) || !isObject(node.data)) {
+          return node;
+        }
+        const sccId = sccIdByNode.get(String(node.data.id));
+        return sccId === undefined ? node : { ...node, data: { ...node.data, sccId } };
+      }),
+      edges: elements.edges.map((edge: unknown) =>
+        isObject(edge) && isObject(edge.data) && cycles.backEdgeIds.has(String(edge.data.id))
+          ? { ...edge, data: { ...edge.data, isBackEdge: true } }
+          : edge
+      )
+    }
+  };
+}
+
+const MIGRATIONS: Record<number, (graph: JsonObject) => JsonObject> = {
+  1: migrateFromVersion1,
+  2: migrateFromVersion2,
+  3: migrateFromVersion3
+};
+
+function migrateGraph(graph: JsonObject): JsonObject {
+  let version = graph.schemaVersion === undefined ? 1 : graph.schemaVersion;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    throw new Error(`schemaVersion must be a positive integer (got ${JSON.stringify(version)})`);
+  }
+  if (version > GRAPH_SCHEMA_VERSION) {
+    throw new Error(
+      `schemaVersion ${version} is newer than this build supports (${GRAPH_SCHEMA_VERSION}); ` +
+        "update the viewer"
+    );
+  }
+
+  let migrated = graph;
+  while (version < GRAPH_SCHEMA_VERSION) {
+    migrated = MIGRATIONS[version](migrated);
+    version += 1;
+  }
+  return migrated;
+}
+
+function validateNodes(nodes: unknown[], problems: string[]): Set<string> {
+  const ids = new Set<string>();
+
+  nodes.forEach((node, index) => {
+    const path = `elements.nodes[${index}].data`;
+    if (!isObject(node) || !isObject(node.data)) {
+      problems.push(`${path} must be an object`);
+      return;
+    }
+
+    const data = node.data;
+    for (const field of NODE_STRING_FIELDS) {
+      if (typeof data[field] !== "string") {
+        problems.push(`${path}.${field} must be a string`);
+      }
+    }
+    for (const field of NODE_NUMBER_FIELDS) {
+      if (typeof data[field] !== "number") {
+        problems.push(`${path}.${field} must be a number`);
+      }
+    }
+    for (const field of NODE_STRING_ARRAY_FIELDS) {
+      if (!isStringArray(data[field])) {
+        problems.push(`${path}.${field} must be an array of strings`);
+      }
+    }
+
+    if (data.sccId !== undefined && typeof data.sccId !== "number") {
+      problems.push(`${path}.sccId must be a number`);
+    }
+    if (data.complexity !== undefined && !isObject(data.complexity)) {
+      problems.push(`${path}.complexity must be an object`);
+    }
+
+    if (typeof data.id === "string") {
+      if (ids.has(data.id)) {
+        problems.push(`${path}.id "${data.id}" is duplicated`);
+      }
+      ids.add(data.id);
+    }
+  });
+
+  return ids;
+}
+
+function validateEdges(
+  edges: unknown[],
+  nodeIds: Set<string>,
+  pathPrefix: string,
+  problems: string[]
+): void {
+  edges.forEach((edge, index) => {
+    const path = `${pathPrefix}[${index}].data`;
+    if (!isObject(edge) || !isObject(edge.data)) {
+      problems.push(`${path} must be an object`);
+      return;
+    }
+
+    const data = edge.data;
+    if (typeof data.id !== "string") {
+      problems.push(`${path}.id must be a string`);
+    }
+    if (typeof data.kind !== "string" || !EDGE_KINDS.has(data.kind)) {
+      problems.push(`${path}.kind must be one of ${[...EDGE_KINDS].join(", ")}`);
+    }
+    if (data.isBackEdge !== undefined && typeof data.isBackEdge !== "boolean") {
+      problems.push(`${path}.isBackEdge must be a boolean`);
+    }
+    for (const field of ["source", "target"]) {
+      const value = data[field];
+      if (typeof value !== "string") {
+        problems.push(`${path}.${field} must be a string`);
+      } else if (!nodeIds.has(value)) {
+        problems.push(`${path}.${field} references unknown node "${value}"`);
+      }
+    }
+  });
+}
+
+function validateCallGraph(callGraph: unknown, problems: string[]): void {
+  if (!isObject(callGraph) || !Array.isArray(callGraph.nodes) || !Array.isArray(callGraph.edges)) {
+    problems.push("callGraph must contain nodes and edges arrays");
+    return;
+  }
+
+  const symbolIds = new Set<string>();
+  callGraph.nodes.forEach((node: unknown, index) => {
+    const data = isObject(node) ? node.data : undefined;
+    if (!isObject(data) || typeof data.id !== "string" || typeof data.moduleId !== "string") {
+      problems.push(`callGraph.nodes[${index}].data must have string id and moduleId`);
+      return;
+    }
+    symbolIds.add(data.id);
+  });
+  validateEdges(callGraph.edges, symbolIds, "callGraph.edges", problems);
+}
+
+function validateGraph(graph: JsonObject): string[] {
+  const problems: string[] = [];
+
+  if (typeof graph.root !== "string") {
+    problems.push("root must be a string");
+  }
+  if (graph.generatedAt !== undefined && typeof graph.generatedAt !== "string") {
+    problems.push("generatedAt must be a string");
+  }
+  if (graph.libraries !== undefined && !Array.isArray(graph.libraries)) {
+    problems.push("libraries must be an array");
+  }
+  if (graph.features !== undefined && !Array.isArray(graph.features)) {
+    problems.push("features must be an array");
+  }
+  if (graph.duplicates !== undefined && !Array.isArray(graph.duplicates)) {
+    problems.push("duplicates must be an array");
+  }
+
+  const elements = graph.elements;
+  if (!isObject(elements) || !Array.isArray(elements.nodes) || !Array.isArray(elements.edges)) {
+    problems.push("elements must contain nodes and edges arrays");
+    return problems;
+  }
+
+  const nodeIds = validateNodes(elements.nodes, problems);
+  validateEdges(elements.edges, nodeIds, "elements.edges", problems);
+
+  if (graph.callGraph !== undefined) {
+    validateCallGraph(graph.callGraph, problems);
+  }
+
+  return problems;
+}
+
+/**
+ * Checks that a parsed graph.json has the shape the viewer and tools rely on, upgrading files
+ * written by older indexers first. Throws an error listing the first few problems otherwise.
+ */
+export function parseGraphJson(value: unknown, source = "graph.json"): GraphJson {
+  if (!isObject(value)) {
+    throw new Error(`${source} is not a graph file: expected a JSON object`);
+  }
+
+  let graph: JsonObject;
+  try {
+    graph = migrateGraph(value);
+  } catch (migrationError) {
+    throw new Error(`${source}: ${(migrationError as Error).message}`);
+  }
+
+  const problems = validateGraph(graph);
+  if (problems.length > 0) {
+    const shown = problems.slice(0, MAX_REPORTED_PROBLEMS).join("; ");
+    const hidden = problems.length - MAX_REPORTED_PROBLEMS;
+    throw new Error(
+      `${source} is not a valid graph file: ${shown}${hidden > 0 ? ` (and ${hidden} more)` : ""}`
+    );
+  }
+
+  return graph as unknown as GraphJson;
+}
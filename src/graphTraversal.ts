@@ -0,0 +1,347 @@
+import type { EdgeKind, GraphEdgeData } from "./types";
+
+export interface DirectedNeighbor {
+  id: string;
+  kind: EdgeKind;
+}
+
+export type TraversalDirection = "outgoing" | "incoming";
+
+export function isEdgeKindVisible(
+  kind: EdgeKind,
+  includeImportEdges: boolean,
+  includeReexportEdges: boolean
+): boolean {
+  if (kind === "import") {
+    return includeImportEdges;
+  }
+
+  if (kind === "reexport") {
+    return includeReexportEdges;
+  }
+
+  return true;
+}
+
+/** Undirected neighbor sets, with an entry for every node id even when it has no edges. */
+export function buildAdjacency(
+  nodeIds: string[],
+  edges: GraphEdgeData[]
+): Map<string, Set<string>> {
+  const map = new Map<string, Set<string>>();
+
+  for (const nodeId of nodeIds) {
+    map.set(nodeId, new Set<string>());
+  }
+
+  for (const edge of edges) {
+    const { source, target } = edge;
+
+    if (!map.has(source)) {
+      map.set(source, new Set<string>());
+    }
+    if (!map.has(target)) {
+      map.set(target, new Set<string>());
+    }
+
+    map.get(source)?.add(target);
+    map.get(target)?.add(source);
+  }
+
+  return map;
+}
+
+/**
+ * Follows edges source -> target for "outgoing" (what a module depends on) and target -> source
+ * for "incoming" (who depends on it).
+ */
+export function buildDirectedAdjacency(
+  nodeIds: string[],
+  edges: GraphEdgeData[],
+  direction: TraversalDirection
+): Map<string, DirectedNeighbor[]> {
+  const map = new Map<string, DirectedNeighbor[]>();
+
+  for (const nodeId of nodeIds) {
+    map.set(nodeId, []);
+  }
+
+  for (const edge of edges) {
+    const from = direction === "outgoing" ? edge.source : edge.target;
+    const to = direction === "outgoing" ? edge.target : edge.source;
+
+    const current = map.get(from) ?? [];
+    current.push({ id: to, kind: edge.kind });
+    map.set(from, current);
+  }
+
+  return map;
+}
+
+export function expandNeighbors(
+  seeds: Set<string>,
+  maxDepth: number,
+  adjacency: Map<string, Set<string>>,
+  allowed: Set<string>
+): Set<string> {
+  const visited = new Set<string>();
+  const queue: Array<{ id: string; depth: number }> = [];
+
+  for (const seed of seeds) {
+    if (!allowed.has(seed)) {
+      continue;
+    }
+
+    visited.add(seed);
+    queue.push({ id: seed, depth: 0 });
+  }
+
+  while (queue.length > 0) {
+    const current = queue.shift();
+    if (!current || current.depth >= maxDepth) {
+      continue;
+    }
+
+    const neighbors = adjacency.get(current.id);
+    if (!neighbors) {
+      continue;
+    }
+
+    for (const neighbor of neighbors) {
+      if (!allowed.has(neighbor) || visited.has(neighbor)) {
+        continue;
+      }
+
+      visited.add(neighbor);
+      queue.push({ id: neighbor, depth: current.depth + 1 });
+    }
+  }
+
+  return visited;
+}
+
+export function expandDirected(
+  seeds: Set<string>,
+  maxDepth: number,
+  adjacency: Map<string, DirectedNeighbor[]>,
+  allowed: Set<string>,
+  includeImportEdges: boolean,
+  includeReexportEdges: boolean
+): Set<string> {
+  const visited = new Set<string>();
+  const queue: Array<{ id: string; depth: number }> = [];
+
+  for (const seed of seeds) {
+    if (!allowed.has(seed)) {
+      continue;
+    }
+
+    visited.add(seed);
+    queue.push({ id: seed, depth: 0 });
+  }
+
+  while (queue.length > 0) {
+    const current = queue.shift();
+    if (!current || current.depth >= maxDepth) {
+      continue;
+    }
+
+    const neighbors = adjacency.get(current.id) ?? [];
+    for (const neighbor of neighbors) {
+      if (!isEdgeKindVisible(neighbor.kind, includeImportEdges, includeReexportEdges)) {
+        continue;
+      }
+
+      if (!allowed.has(neighbor.id) || visited.has(neighbor.id)) {
+        continue;
+      }
+
+      visited.add(neighbor.id);
+      queue.push({ id: neighbor.id, depth: current.depth + 1 });
+    }
+  }
+
+  return visited;
+}
+
+/** Breadth-first shortest path along `adjacency`, as node ids from `from` to `to` inclusive. */
+export function findShortestPath(
+  from: string,
+  to: string,
+  adjacency: Map<string, DirectedNeighbor[]>,
+  includeImportEdges: boolean,
+  includeReexportEdges: boolean
+): string[] | null {
+  const parents = new Map<string, string | null>([[from, null]]);
+  const queue = [from];
+
+  while (queue.length > 0) {
+    const current = queue.shift() as string;
+    if (current === to) {
+      const path: string[] = [];
+      for (let id: string | null = current; id !== null; id = parents.get(id) ?? null) {
+        path.unshift(id);
+      }
+      return path;
+    }
+
+    for (const neighbor of adjacency.get(current) ?? []) {
+      if (!isEdgeKindVisible(neighbor.kind, includeImportEdges, includeReexportEdges)) {
+        continue;
+      }
+      if (!parents.has(neighbor.id)) {
+        parents.set(neighbor.id, current);
+        queue.push(neighbor.id);
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Shortest cycle back to `id` through each of its direct dependencies, so every distinct way out
+ * of the module that returns to it is reported once. Cycles start and end with `id`.
+ */
+export function findCyclesThrough(
+  id: string,
+  outgoingAdjacency: Map<string, DirectedNeighbor[]>,
+  includeImportEdges: boolean,
+  includeReexportEdges: boolean
+): string[][] {
+  const cycles: string[][] = [];
+  const seen = new Set<string>();
+
+  for (const neighbor of outgoingAdjacency.get(id) ?? []) {
+    if (!isEdgeKindVisible(neighbor.kind, includeImportEdges, includeReexportEdges)) {
+      continue;
+    }
+
+    const back =
+      neighbor.id === id
+        ? [id]
+        : findShortestPath(
+            neighbor.id,
+            id,
+            outgoingAdjacency,
+            includeImportEdges,
+            includeReexportEdges
+          );
+    if (!back) {
+      continue;
+    }
+
+    const cycle = [id, ...back];
+    const key = cycle.join("\u0000");
+    if (!seen.has(key)) {
+      seen.add(key);
+      cycles.push(cycle);
+    }
+  }
+
+  return cycles.sort((a, b) => a.length - b.length);
+}
+
+export interface CycleAnalysis {
+  /** Components with two or more nodes, or one node with an edge to itself; largest first. */
+  components: string[][];
+  /** Edges closing a cycle in the depth-first walk; dropping them leaves the graph acyclic. */
+  backEdgeIds: Set<string>;
+}
+
+/**
+ * Orders strings by UTF-16 code unit rather than locale so output does not depend on the machine
+ * it is produced on.
+ */
+export function compareStrings(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Tarjan's strongly connected components, iterative so deep import chains cannot overflow the
+ * stack. Nodes and edges are walked in the order given, which keeps back edges deterministic.
+ */
+export function findCycles(nodeIds: string[], edges: GraphEdgeData[]): CycleAnalysis {
+  const outgoing = new Map<string, GraphEdgeData[]>();
+  for (const edge of edges) {
+    const current = outgoing.get(edge.source) ?? [];
+    current.push(edge);
+    outgoing.set(edge.source, current);
+  }
+
+  const indexById = new Map<string, number>();
+  const lowLinkById = new Map<string, number>();
+  const componentStack: string[] = [];
+  const onComponentStack = new Set<string>();
+  const onPath = new Set<string>();
+  const components: string[][] = [];
+  const backEdgeIds = new Set<string>();
+
+  const visit = (id: string): void => {
+    indexById.set(id, indexById.size);
+    lowLinkById.set(id, indexById.size - 1);
+    componentStack.push(id);
+    onComponentStack.add(id);
+    onPath.add(id);
+  };
+  const lowerLink = (id: string, candidate: number): void => {
+    lowLinkById.set(id, Math.min(lowLinkById.get(id) ?? candidate, candidate));
+  };
+
+  for (const root of nodeIds) {
+    if (indexById.has(root)) {
+      continue;
+    }
+
+    visit(root);
+    const frames = [{ id: root, edgeIndex: 0 }];
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1];
+      const frameEdges = outgoing.get(frame.id) ?? [];
+
+      if (frame.edgeIndex < frameEdges.length) {
+        const edge = frameEdges[frame.edgeIndex];
+        frame.edgeIndex += 1;
+
+        if (!indexById.has(edge.target)) {
+          visit(edge.target);
+          frames.push({ id: edge.target, edgeIndex: 0 });
+          continue;
+        }
+        if (onPath.has(edge.target)) {
+          backEdgeIds.add(edge.id);
+        }
+        if (onComponentStack.has(edge.target)) {
+          lowerLink(frame.id, indexById.get(edge.target) as number);
+        }
+        continue;
+      }
+
+      frames.pop();
+      onPath.delete(frame.id);
+      const parent = frames[frames.length - 1];
+      if (parent) {
+        lowerLink(parent.id, lowLinkById.get(frame.id) as number);
+      }
+      if (lowLinkById.get(frame.id) !== indexById.get(frame.id)) {
+        continue;
+      }
+
+      const component: string[] = [];
+      let member: string | undefined;
+      do {
+        member = componentStack.pop() as string;
+        onComponentStack.delete(member);
+        component.push(member);
+      } while (member !== frame.id);
+
+      const isSelfLoop = frameEdges.some((edge) => edge.target === frame.id);
+      if (component.length > 1 || isSelfLoop) {
+        components.push(component.sort(compareStrings));
+      }
+    }
+  }
+
+  components.sort((a, b) => b.length - a.length || compareStrings(a[0], b[0]));
+  return { components, backEdgeIds };
+}
@@ -1,11 +1,72 @@
+export type SymbolKind = "function" | "predicate" | "type" | "enum" | "const";
+
+export interface DocTag {
+  tag: string;
+  name?: string;
+  type?: string;
+  text: string;
+}
+
+export interface DocComment {
+  description: string;
+  tags: DocTag[];
+}
+
+export interface SymbolParameter {
+  name: string;
+  type?: string;
+}
+
+export interface EnumMemberRecord {
+  name: string;
+  line: number;
+  annotations: Record<string, AnnotationValue>;
+}
+
+/** Measured over a function, predicate or function-valued const body. */
+export interface FunctionMetrics {
+  cyclomaticComplexity: number;
+  maxNesting: number;
+  statementCount: number;
+  parameterCount: number;
+}
+
+export interface MetricSummary {
+  max: number;
+  mean: number;
+}
+
+/** Per-module aggregate of every measured function's metrics. */
+export type ModuleComplexity = Record<keyof FunctionMetrics, MetricSummary>;
+
+export interface SymbolRecord {
+  name: string;
+  kind: SymbolKind;
+  startLine: number;
+  endLine: number;
+  parameters?: SymbolParameter[];
+  returnType?: string;
+  valueType?: string;
+  typecheck?: string;
+  members?: EnumMemberRecord[];
+  doc?: DocComment;
+  metrics?: FunctionMetrics;
+}
+
+/** Set by the viewer on the union graph it renders when comparing against a baseline. */
+export type DiffStatus = "added" | "removed" | "changed";
+
 export interface GraphNodeData {
   id: string;
   label: string;
   filePath: string;
   modulePath: string;
+  library?: string;
   sourceUrl?: string;
+  moduleDoc?: DocComment;
   loc: number;
   functionCount: number;
+  complexity?: ModuleComplexity;
   isGenerated?: boolean;
   imports: string[];
   reexports: string[];
@@ -15,22 +76,123 @@ export interface GraphNodeData {
   reexportCount: number;
   exports: string[];
   exportCount: number;
+  symbols?: SymbolRecord[];
   symbolUsers?: Record<string, string[]>;
+  signatureUsers?: Record<string, string[]>;
+  visibleTo?: Record<string, string[]>;
   isVirtual?: boolean;
+  /** Index into the graph's import cycles (non-trivial SCCs, largest first); unset outside one. */
+  sccId?: number;
+  diffStatus?: DiffStatus;
 }
 
+export type EdgeKind = "import" | "reexport" | "call";
+
 export interface GraphEdgeData {
   id: string;
   source: string;
   target: string;
-  kind: "import" | "reexport";
+  kind: EdgeKind;
+  rawPath?: string;
+  version?: string;
+  line?: number;
+  count?: number;
+  lines?: number[];
+  isBackEdge?: boolean;
+  diffStatus?: DiffStatus;
+}
+
+export interface FunctionOverload {
+  startLine: number;
+  endLine: number;
+  metrics?: FunctionMetrics;
+}
+
+/**
+ * One node per name: overloads share it, their calls are merged and `metrics` holds the highest
+ * value of each metric across them. `overloads` lists every declaration when there are several.
+ */
+export interface CallGraphNodeData {
+  id: string;
+  label: string;
+  moduleId: string;
+  name: string;
+  kind: SymbolKind;
+  exported: boolean;
+  startLine: number;
+  endLine: number;
+  metrics?: FunctionMetrics;
+  overloads?: FunctionOverload[];
+}
+
+export type AnnotationValue =
+  | string
+  | number
+  | boolean
+  | AnnotationValue[]
+  | { [key: string]: AnnotationValue };
+
+export interface FeatureParameterRecord {
+  name: string;
+  label?: string;
+  type?: string;
+  predicate?: string;
+  bounds?: string;
+  conditional: boolean;
+  line: number;
+  annotations: Record<string, AnnotationValue>;
+}
+
+export interface FeatureRecord {
+  id: string;
+  name: string;
+  moduleId: string;
+  featureTypeName?: string;
+  annotations: Record<string, AnnotationValue>;
+  parameters: FeatureParameterRecord[];
+  startLine: number;
+  endLine: number;
+}
+
+export interface DuplicateFunction {
+  /** Call graph node id (`module#name`). */
+  symbolId: string;
+  moduleId: string;
+  name: string;
+  exported: boolean;
+  startLine: number;
+  endLine: number;
+}
+
+/** Functions whose normalized bodies are near-identical, spanning at least two modules. */
+export interface DuplicateCluster {
+  id: number;
+  similarity: number;
+  members: DuplicateFunction[];
+}
+
+export interface LibraryInfo {
+  label: string;
+  root: string;
+  moduleCount: number;
+  gitRef?: string;
+  commit?: string;
+  committedAt?: string;
 }
 
 export interface GraphJson {
+  schemaVersion: number;
   root: string;
-  generatedAt: string;
+  libraries?: LibraryInfo[];
+  generatedAt?: string;
   elements: {
     nodes: Array<{ data: GraphNodeData }>;
     edges: Array<{ data: GraphEdgeData }>;
   };
+  callGraph?: {
+    nodes: Array<{ data: CallGraphNodeData }>;
+    edges: Array<{ data: GraphEdgeData }>;
+  };
+  features?: FeatureRecord[];
+  duplicates?: DuplicateCluster[];
 }
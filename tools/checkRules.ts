@@ -0,0 +1,101 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { checkArchitectureRules, parseArchitectureRules } from "../src/architectureRules.ts";
+import type { RuleViolation } from "../src/architectureRules.ts";
+import { parseGraphJson } from "../src/graphSchema.ts";
+
+interface CliOptions {
+  rules: string;
+  graph: string;
+  json: boolean;
+}
+
+function printHelp(): void {
+  console.log(`Check a graph.json against architecture rules
+
+Usage:
+  npm run check-rules -- <RULES.json> [GRAPH.json] [--json]
+
+Defaults:
+  GRAPH.json: public/graph.json
+
+Prints every violation and exits with status 1 when any rule with severity "error" is broken.
+Warnings are reported but do not fail the check. --json prints the violations as JSON.
+`);
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const files: string[] = [];
+  let json = false;
+
+  for (const arg of argv) {
+    if (arg === "--help" || arg === "-h") {
+      printHelp();
+      process.exit(0);
+    }
+
+    if (arg === "--json") {
+      json = true;
+      continue;
+    }
+
+    if (arg.startsWith("-")) {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+
+    files.push(arg);
+  }
+
+  if (files.length < 1 || files.length > 2) {
+    throw new Error("Expected a rules file and optionally a graph file: <RULES.json> [GRAPH.json]");
+  }
+
+  return {
+    rules: path.resolve(process.cwd(), files[0]),
+    graph: path.resolve(process.cwd(), files[1] ?? "public/graph.json"),
+    json
+  };
+}
+
+async function readJson(filePath: string, description: string): Promise<unknown> {
+  const raw = await readFile(filePath, "utf8").catch(() => undefined);
+  if (raw === undefined) {
+    throw new Error(`${description} does not exist: ${filePath}`);
+  }
+
+  return JSON.parse(raw);
+}
+
+function formatViolation(violation: RuleViolation): string {
+  return `${violation.severity.padEnd(7)} [${violation.rule}] ${violation.message}`;
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  const rules = parseArchitectureRules(await readJson(options.rules, "Rules file"), options.rules);
+  const graph = parseGraphJson(await readJson(options.graph, "Graph file"), options.graph);
+  const violations = checkArchitectureRules(graph, rules);
+  const errorCount = violations.filter((violation) => violation.severity === "error").length;
+
+  if (options.json) {
+    process.stdout.write(`${JSON.stringify(violations, null, 2)}\n`);
+  } else {
+    for (const violation of violations) {
+      console.log(formatViolation(violation));
+    }
+    console.log(
+      `${rules.length} rules checked: ${errorCount} errors, ` +
+        `${violations.length - errorCount} warnings`
+    );
+  }
+
+  if (errorCount > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error: unknown) => {
+  const message = error instanceof Error ? error.message : String(error);
+  console.error(`Rule check failed: ${message}`);
+  process.exitCode = 2;
+});
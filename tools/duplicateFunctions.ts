@@ -0,0 +1,160 @@
+import type { Token } from "./featureScriptLexer.ts";
+import type { TokenSpan } from "./featureScriptParser.ts";
+
+/** MinHash signature over the shingles of a body's normalized tokens. */
+export interface FunctionFingerprint {
+  tokenCount: number;
+  signature: number[];
+}
+
+export interface DuplicateGroup<T> {
+  /** Lowest estimated similarity among the pairs that joined the group. */
+  similarity: number;
+  members: T[];
+}
+
+const SHINGLE_SIZE = 5;
+const SIGNATURE_SIZE = 64;
+const BAND_ROWS = 4;
+// Bodies shorter than this are mostly one-line wrappers, which match each other trivially.
+const MIN_TOKEN_COUNT = 40;
+export const DUPLICATE_SIMILARITY_THRESHOLD = 0.85;
+
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i += 1) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function mixHash(value: number, seed: number): number {
+  let hash = Math.imul(value ^ seed, 0x9e3779b1);
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  return hash >>> 0;
+}
+
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, index) => hashString(`seed-${index}`));
+
+function normalizeToken(token: Token): string {
+  switch (token.kind) {
+    case "identifier":
+      return "$id";
+    case "string":
+      return "$str";
+    case "number":
+      return "$num";
+    default:
+      return token.value;
+  }
+}
+
+/**
+ * Fingerprints a function body so renamed copies still match: identifiers, strings and numbers are
+ * replaced by placeholders before shingling. Returns undefined for bodies too short to compare.
+ */
+export function fingerprintBody(tokens: Token[], span: TokenSpan): FunctionFingerprint | undefined {
+  const normalized = tokens.slice(span.startIndex, span.endIndex).map(normalizeToken);
+  if (normalized.length < MIN_TOKEN_COUNT) {
+    return undefined;
+  }
+
+  const signature = new Array<number>(SIGNATURE_SIZE).fill(0xffffffff);
+  for (let i = 0; i + SHINGLE_SIZE <= normalized.length; i += 1) {
+    const shingle = hashString(normalized.slice(i, i + SHINGLE_SIZE).join(" "));
+    for (let j = 0; j < SIGNATURE_SIZE; j += 1) {
+      signature[j] = Math.min(signature[j], mixHash(shingle, SEEDS[j]));
+    }
+  }
+
+  return { tokenCount: normalized.length, signature };
+}
+
+function estimateSimilarity(a: FunctionFingerprint, b: FunctionFingerprint): number {
+  let equal = 0;
+  for (let i = 0; i < SIGNATURE_SIZE; i += 1) {
+    if (a.signature[i] === b.signature[i]) {
+      equal += 1;
+    }
+  }
+  return equal / SIGNATURE_SIZE;
+}
+
+/**
+ * Groups near-identical bodies. Candidates come from locality-sensitive hashing (bodies sharing
+ * any band of their signature), so only likely pairs are compared; groups are the connected
+ * components of pairs at or above `threshold`. Groups keep the input order of their members.
+ */
+export function findDuplicateGroups<T>(
+  items: Array<{ item: T; fingerprint: FunctionFingerprint }>,
+  threshold = DUPLICATE_SIMILARITY_THRESHOLD
+): Array<DuplicateGroup<T>> {
+  const parents = items.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parents[index] !== index) {
+      parents[index] = parents[parents[index]];
+      index = parents[index];
+    }
+    return index;
+  };
+
+  const buckets = new Map<string, number[]>();
+  items.forEach(({ fingerprint }, index) => {
+    for (let band = 0; band < SIGNATURE_SIZE; band += BAND_ROWS) {
+      const key = `${band}:${fingerprint.signature.slice(band, band + BAND_ROWS).join(",")}`;
+      const bucket = buckets.get(key) ?? [];
+      bucket.push(index);
+      buckets.set(key, bucket);
+    }
+  });
+
+  const compared = new Set<string>();
+  const matches: Array<{ index: number; similarity: number }> = [];
+  for (const bucket of buckets.values()) {
+    for (let i = 0; i < bucket.length; i += 1) {
+      for (let j = i + 1; j < bucket.length; j += 1) {
+        const pairKey = `${bucket[i]}:${bucket[j]}`;
+        if (compared.has(pairKey)) {
+          continue;
+        }
+        compared.add(pairKey);
+
+        const a = items[bucket[i]].fingerprint;
+        const b = items[bucket[j]].fingerprint;
+        const sizeRatio =
+          Math.min(a.tokenCount, b.tokenCount) / Math.max(a.tokenCount, b.tokenCount);
+        const similarity = estimateSimilarity(a, b);
+        if (sizeRatio < threshold || similarity < threshold) {
+          continue;
+        }
+
+        parents[find(bucket[j])] = find(bucket[i]);
+        matches.push({ index: bucket[i], similarity });
+      }
+    }
+  }
+
+  const lowestSimilarity = new Map<number, number>();
+  for (const { index, similarity } of matches) {
+    const root = find(index);
+    lowestSimilarity.set(root, Math.min(lowestSimilarity.get(root) ?? 1, similarity));
+  }
+
+  const membersByRoot = new Map<number, T[]>();
+  items.forEach(({ item }, index) => {
+    const root = find(index);
+    if (lowestSimilarity.has(root)) {
+      const members = membersByRoot.get(root) ?? [];
+      members.push(item);
+      membersByRoot.set(root, members);
+    }
+  });
+
+  return [...membersByRoot.entries()].map(([root, members]) => ({
+    similarity: Math.round((lowestSimilarity.get(root) ?? 1) * 100) / 100,
+    members
+  }));
+}
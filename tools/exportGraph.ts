@@ -0,0 +1,178 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { EXPORT_FORMATS, exportGraph } from "../src/graphExport.ts";
+import type { ExportFormat, ExportNode } from "../src/graphExport.ts";
+import { parseGraphJson } from "../src/graphSchema.ts";
+import type { GraphEdgeData } from "../src/types.ts";
+
+type GraphLayer = "modules" | "symbols";
+
+interface CliOptions {
+  graph: string;
+  format: ExportFormat;
+  layer: GraphLayer;
+  out?: string;
+}
+
+function printHelp(): void {
+  console.log(`Export graph.json to other graph formats
+
+Usage:
+  npm run export -- [GRAPH.json] --format <${EXPORT_FORMATS.join("|")}> [--graph modules|symbols]
+                    [--out <PATH>]
+
+Defaults:
+  GRAPH.json: public/graph.json
+  --graph: modules (symbols exports the function call graph)
+
+Every node and edge attribute is written; arrays such as imports or exports are encoded as JSON.
+Output goes to stdout unless --out is given. CSV writes two tables, so it requires --out and
+writes <PATH>-nodes.csv and <PATH>-edges.csv (any .csv extension on PATH is dropped).
+`);
+}
+
+function readOptionValue(argv: string[], index: number, name: string): string {
+  const value = argv[index + 1] ?? "";
+  if (!value) {
+    throw new Error(`Missing value for ${name}`);
+  }
+  return value;
+}
+
+function parseFormat(value: string): ExportFormat {
+  if (!(EXPORT_FORMATS as string[]).includes(value)) {
+    throw new Error(`Unknown format: ${value} (expected one of ${EXPORT_FORMATS.join(", ")})`);
+  }
+  return value as ExportFormat;
+}
+
+function parseLayer(value: string): GraphLayer {
+  if (value !== "modules" && value !== "symbols") {
+    throw new Error(`Unknown graph: ${value} (expected modules or symbols)`);
+  }
+  return value;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const files: string[] = [];
+  let format: ExportFormat | undefined;
+  let layer: GraphLayer = "modules";
+  let out: string | undefined;
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+
+    if (arg === "--help" || arg === "-h") {
+      printHelp();
+      process.exit(0);
+    }
+
+    if (arg === "--format") {
+      format = parseFormat(readOptionValue(argv, i, "--format <FORMAT>"));
+      i += 1;
+      continue;
+    }
+
+    if (arg.startsWith("--format=")) {
+      format = parseFormat(arg.slice("--format=".length));
+      continue;
+    }
+
+    if (arg === "--graph") {
+      layer = parseLayer(readOptionValue(argv, i, "--graph modules|symbols"));
+      i += 1;
+      continue;
+    }
+
+    if (arg.startsWith("--graph=")) {
+      layer = parseLayer(arg.slice("--graph=".length));
+      continue;
+    }
+
+    if (arg === "--out") {
+      out = readOptionValue(argv, i, "--out <PATH>");
+      i += 1;
+      continue;
+    }
+
+    if (arg.startsWith("--out=")) {
+      out = arg.slice("--out=".length);
+      continue;
+    }
+
+    if (arg.startsWith("-")) {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+
+    files.push(arg);
+  }
+
+  if (files.length > 1) {
+    throw new Error("Expected at most one graph file");
+  }
+  if (!format) {
+    throw new Error(`Missing --format <${EXPORT_FORMATS.join("|")}>`);
+  }
+  if (format === "csv" && !out) {
+    throw new Error("CSV export writes a node and an edge table; pass --out <PATH>");
+  }
+
+  return {
+    graph: path.resolve(process.cwd(), files[0] ?? "public/graph.json"),
+    format,
+    layer,
+    out: out ? path.resolve(process.cwd(), out) : undefined
+  };
+}
+
+async function loadElements(
+  options: CliOptions
+): Promise<{ nodes: ExportNode[]; edges: GraphEdgeData[] }> {
+  const raw = await readFile(options.graph, "utf8").catch(() => undefined);
+  if (raw === undefined) {
+    throw new Error(`Graph file does not exist: ${options.graph}`);
+  }
+
+  const graph = parseGraphJson(JSON.parse(raw), options.graph);
+  if (options.layer === "symbols") {
+    if (!graph.callGraph) {
+      throw new Error(`${options.graph} has no call graph; re-run the indexer to include one`);
+    }
+    return {
+      nodes: graph.callGraph.nodes.map((node) => node.data),
+      edges: graph.callGraph.edges.map((edge) => edge.data)
+    };
+  }
+
+  return {
+    nodes: graph.elements.nodes.map((node) => node.data),
+    edges: graph.elements.edges.map((edge) => edge.data)
+  };
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  const { nodes, edges } = await loadElements(options);
+  const files = exportGraph(nodes, edges, options.format);
+
+  if (!options.out) {
+    process.stdout.write(files[0].content);
+    return;
+  }
+
+  await mkdir(path.dirname(options.out), { recursive: true });
+  for (const file of files) {
+    // Single-file formats are written exactly where asked; multi-file ones derive sibling names.
+    const filePath = file.suffix
+      ? `${options.out.replace(/\.csv$/i, "")}${file.suffix}.${file.extension}`
+      : options.out;
+    await writeFile(filePath, file.content, "utf8");
+    console.log(`Wrote: ${filePath}`);
+  }
+}
+
+main().catch((error: unknown) => {
+  const message = error instanceof Error ? error.message : String(error);
+  console.error(`Graph export failed: ${message}`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,93 @@
+import type { DocComment, DocTag } from "../src/types.ts";
+
+const NAMED_TAGS = new Set(["param", "field", "value"]);
+
+function stripCommentDelimiters(raw: string): string[] {
+  const body = raw.replace(/^\/\*\*/, "").replace(/\*\/$/, "");
+  const lines = body.split(/\r?\n/).map((line) => line.replace(/^\s*\*( ?)/, "").replace(/\s+$/, ""));
+
+  while (lines.length > 0 && lines[0].trim() === "") {
+    lines.shift();
+  }
+  while (lines.length > 0 && lines[lines.length - 1].trim() === "") {
+    lines.pop();
+  }
+
+  return lines;
+}
+
+function countBraceDelta(line: string): number {
+  const opens = line.match(/\{\{/g)?.length ?? 0;
+  const closes = line.match(/\}\}/g)?.length ?? 0;
+  return opens - closes;
+}
+
+function parseTag(block: string): DocTag {
+  const match = /^@([A-Za-z]+)\s*([\s\S]*)$/.exec(block);
+  const tag = match?.[1] ?? "";
+  let rest = (match?.[2] ?? "").trim();
+  let name: string | undefined;
+  let type: string | undefined;
+
+  if (NAMED_TAGS.has(tag)) {
+    const nameMatch = /^([A-Za-z_][A-Za-z0-9_]*)\s*/.exec(rest);
+    if (nameMatch) {
+      name = nameMatch[1];
+      rest = rest.slice(nameMatch[0].length);
+    }
+  }
+
+  if (rest.startsWith("{") && !rest.startsWith("{{")) {
+    const close = rest.indexOf("}");
+    if (close > 0) {
+      type = rest.slice(1, close).trim();
+      rest = rest.slice(close + 1).trimStart();
+    }
+  }
+
+  if (rest.startsWith(":")) {
+    rest = rest.slice(1).trimStart();
+  }
+
+  return { tag, name, type, text: rest.trim() };
+}
+
+/**
+ * Parses an FsDoc block comment into its free-form description and `@tag` entries. Nested
+ * `{{ ... }}` blocks (used for `@field` lists under a `@param`) stay in the owning tag's text.
+ */
+export function parseDocComment(raw: string): DocComment {
+  const lines = stripCommentDelimiters(raw);
+  const descriptionLines: string[] = [];
+  const tagBlocks: string[] = [];
+  let current: string[] | null = null;
+  let nestedDepth = 0;
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+
+    if (nestedDepth === 0 && trimmed.startsWith("@")) {
+      if (current) {
+        tagBlocks.push(current.join("\n"));
+      }
+      current = [trimmed];
+    } else if (current) {
+      current.push(line);
+    } else {
+      descriptionLines.push(line);
+    }
+
+    if (current) {
+      nestedDepth = Math.max(0, nestedDepth + countBraceDelta(line));
+    }
+  }
+
+  if (current) {
+    tagBlocks.push(current.join("\n"));
+  }
+
+  return {
+    description: descriptionLines.join("\n").trim(),
+    tags: tagBlocks.map(parseTag)
+  };
+}
@@ -0,0 +1,254 @@
+export type TokenKind = "identifier" | "keyword" | "string" | "number" | "punctuator";
+
+export type CommentKind = "line" | "block" | "doc";
+
+export interface SourcePosition {
+  offset: number;
+  line: number;
+  column: number;
+}
+
+export interface Token {
+  kind: TokenKind;
+  value: string;
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+export interface Comment {
+  kind: CommentKind;
+  text: string;
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+export interface LexResult {
+  tokens: Token[];
+  comments: Comment[];
+}
+
+const KEYWORDS = new Set([
+  "annotation",
+  "break",
+  "catch",
+  "const",
+  "continue",
+  "else",
+  "enum",
+  "export",
+  "false",
+  "for",
+  "function",
+  "if",
+  "import",
+  "in",
+  "is",
+  "new",
+  "operator",
+  "precondition",
+  "predicate",
+  "return",
+  "returns",
+  "switch",
+  "throw",
+  "true",
+  "try",
+  "type",
+  "typecheck",
+  "undefined",
+  "var",
+  "while"
+]);
+
+const PUNCTUATORS = [
+  "::",
+  "->",
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "&&",
+  "||",
+  "+=",
+  "-=",
+  "*=",
+  "/=",
+  "%=",
+  "^=",
+  "++",
+  "--",
+  "{",
+  "}",
+  "(",
+  ")",
+  "[",
+  "]",
+  ";",
+  ",",
+  ":",
+  ".",
+  "?",
+  "~",
+  "@",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "^",
+  "!",
+  "<",
+  ">",
+  "=",
+  "&",
+  "|"
+];
+
+function isIdentifierStart(ch: string): boolean {
+  return (ch >= "A" && ch <= "Z") || (ch >= "a" && ch <= "z") || ch === "_";
+}
+
+function isIdentifierPart(ch: string): boolean {
+  return isIdentifierStart(ch) || isDigit(ch);
+}
+
+function isDigit(ch: string): boolean {
+  return ch >= "0" && ch <= "9";
+}
+
+export function isKeyword(value: string): boolean {
+  return KEYWORDS.has(value);
+}
+
+export function tokenize(source: string): LexResult {
+  const tokens: Token[] = [];
+  const comments: Comment[] = [];
+  let offset = 0;
+  let line = 1;
+  let column = 1;
+
+  function position(): SourcePosition {
+    return { offset, line, column };
+  }
+
+  function advance(count: number): void {
+    for (let i = 0; i < count && offset < source.length; i += 1) {
+      if (source[offset] === "\n") {
+        line += 1;
+        column = 1;
+      } else {
+        column += 1;
+      }
+      offset += 1;
+    }
+  }
+
+  while (offset < source.length) {
+    const ch = source[offset];
+    const next = source[offset + 1];
+
+    if (ch === " " || ch === "\t" || ch === "\r" || ch === "\n" || ch === "\f" || ch === "\uFEFF") {
+      advance(1);
+      continue;
+    }
+
+    const start = position();
+
+    if (ch === "/" && next === "/") {
+      const newline = source.indexOf("\n", offset);
+      const stop = newline < 0 ? source.length : newline;
+      const text = source.slice(offset, stop);
+      advance(stop - offset);
+      comments.push({ kind: "line", text, start, end: position() });
+      continue;
+    }
+
+    if (ch === "/" && next === "*") {
+      const close = source.indexOf("*/", offset + 2);
+      const stop = close < 0 ? source.length : close + 2;
+      const text = source.slice(offset, stop);
+      const isDoc = text.startsWith("/**") && text !== "/**/" && !text.startsWith("/***");
+      advance(stop - offset);
+      comments.push({ kind: isDoc ? "doc" : "block", text, start, end: position() });
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      let cursor = offset + 1;
+      while (cursor < source.length && source[cursor] !== ch) {
+        cursor += source[cursor] === "\\" ? 2 : 1;
+      }
+      const stop = Math.min(source.length, cursor + 1);
+      const raw = source.slice(offset, stop);
+      advance(stop - offset);
+      tokens.push({ kind: "string", value: raw, start, end: position() });
+      continue;
+    }
+
+    if (isDigit(ch) || (ch === "." && isDigit(next ?? ""))) {
+      let cursor = offset;
+      while (cursor < source.length && isDigit(source[cursor])) {
+        cursor += 1;
+      }
+      if (source[cursor] === "." && isDigit(source[cursor + 1] ?? "")) {
+        cursor += 1;
+        while (cursor < source.length && isDigit(source[cursor])) {
+          cursor += 1;
+        }
+      }
+      if (source[cursor] === "e" || source[cursor] === "E") {
+        let exponent = cursor + 1;
+        if (source[exponent] === "+" || source[exponent] === "-") {
+          exponent += 1;
+        }
+        if (isDigit(source[exponent] ?? "")) {
+          cursor = exponent;
+          while (cursor < source.length && isDigit(source[cursor])) {
+            cursor += 1;
+          }
+        }
+      }
+      const value = source.slice(offset, cursor);
+      advance(cursor - offset);
+      tokens.push({ kind: "number", value, start, end: position() });
+      continue;
+    }
+
+    if (isIdentifierStart(ch)) {
+      let cursor = offset + 1;
+      while (cursor < source.length && isIdentifierPart(source[cursor])) {
+        cursor += 1;
+      }
+      const value = source.slice(offset, cursor);
+      advance(cursor - offset);
+      tokens.push({
+        kind: KEYWORDS.has(value) ? "keyword" : "identifier",
+        value,
+        start,
+        end: position()
+      });
+      continue;
+    }
+
+    const punctuator = PUNCTUATORS.find((candidate) => source.startsWith(candidate, offset));
+    const value = punctuator ?? ch;
+    advance(value.length);
+    tokens.push({ kind: "punctuator", value, start, end: position() });
+  }
+
+  return { tokens, comments };
+}
+
+export function unquoteString(raw: string): string {
+  const quote = raw[0];
+  const body = raw.endsWith(quote) && raw.length > 1 ? raw.slice(1, -1) : raw.slice(1);
+  return body.replace(/\\(.)/g, (_match, escaped: string) => {
+    if (escaped === "n") {
+      return "\n";
+    }
+    if (escaped === "t") {
+      return "\t";
+    }
+    return escaped;
+  });
+}
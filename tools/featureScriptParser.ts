@@ -0,0 +1,900 @@
+import { tokenize, unquoteString } from "./featureScriptLexer.ts";
+import type { Comment, SourcePosition, Token } from "./featureScriptLexer.ts";
+import type { AnnotationValue } from "../src/types.ts";
+
+export type DeclarationKind = "function" | "predicate" | "type" | "enum" | "const" | "operator";
+
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+export interface TokenSpan {
+  startIndex: number;
+  endIndex: number;
+}
+
+export interface Annotation {
+  entries: Record<string, AnnotationValue>;
+  range: SourceRange;
+}
+
+export interface ImportDeclaration {
+  path: string;
+  version?: string;
+  namespace?: string;
+  isExport: boolean;
+  range: SourceRange;
+}
+
+export interface Parameter {
+  name: string;
+  type?: string;
+  range: SourceRange;
+}
+
+export interface EnumMember {
+  name: string;
+  annotations: Annotation[];
+  range: SourceRange;
+}
+
+export interface DefinitionParameter {
+  name: string;
+  type?: string;
+  predicate?: string;
+  bounds?: string;
+  annotations: Record<string, AnnotationValue>;
+  conditional: boolean;
+  range: SourceRange;
+}
+
+export interface Declaration {
+  kind: DeclarationKind;
+  name: string;
+  exported: boolean;
+  annotations: Annotation[];
+  range: SourceRange;
+  parameters?: Parameter[];
+  returnType?: string;
+  valueType?: string;
+  typecheck?: string;
+  members?: EnumMember[];
+  precondition?: TokenSpan;
+  body?: TokenSpan;
+  initializer?: TokenSpan;
+  wrapper?: string;
+  definitionParameters?: DefinitionParameter[];
+  docComment?: Comment;
+}
+
+export interface ParseDiagnostic {
+  message: string;
+  position: SourcePosition;
+}
+
+export interface ParsedModule {
+  version?: number;
+  moduleDoc?: Comment;
+  tokens: Token[];
+  comments: Comment[];
+  imports: ImportDeclaration[];
+  declarations: Declaration[];
+  diagnostics: ParseDiagnostic[];
+}
+
+interface ParserState {
+  source: string;
+  tokens: Token[];
+  index: number;
+  diagnostics: ParseDiagnostic[];
+}
+
+const CLOSING_BRACKETS: Record<string, string> = {
+  "{": "}",
+  "(": ")",
+  "[": "]"
+};
+
+const EOF_POSITION: SourcePosition = { offset: 0, line: 0, column: 0 };
+
+function peek(state: ParserState, ahead = 0): Token | undefined {
+  return state.tokens[state.index + ahead];
+}
+
+function isToken(token: Token | undefined, value: string): boolean {
+  return token !== undefined && token.kind !== "string" && token.value === value;
+}
+
+function accept(state: ParserState, value: string): Token | undefined {
+  const token = peek(state);
+  if (isToken(token, value)) {
+    state.index += 1;
+    return token;
+  }
+  return undefined;
+}
+
+function currentPosition(state: ParserState): SourcePosition {
+  const token = peek(state) ?? state.tokens[state.tokens.length - 1];
+  return token?.start ?? EOF_POSITION;
+}
+
+function previousEnd(state: ParserState): SourcePosition {
+  return state.tokens[state.index - 1]?.end ?? EOF_POSITION;
+}
+
+function report(state: ParserState, message: string, position = currentPosition(state)): void {
+  state.diagnostics.push({ message, position });
+}
+
+function expect(state: ParserState, value: string, context: string): Token | undefined {
+  const token = accept(state, value);
+  if (!token) {
+    const found = peek(state)?.value ?? "end of file";
+    report(state, `Expected "${value}" ${context}, found "${found}"`);
+  }
+  return token;
+}
+
+function expectIdentifier(state: ParserState, context: string): Token | undefined {
+  const token = peek(state);
+  if (token?.kind === "identifier") {
+    state.index += 1;
+    return token;
+  }
+  report(state, `Expected identifier ${context}, found "${token?.value ?? "end of file"}"`);
+  return undefined;
+}
+
+/**
+ * Consumes a bracketed group starting at the current opening token and returns the span of
+ * the tokens strictly between the brackets.
+ */
+function skipBalanced(state: ParserState): TokenSpan {
+  const open = peek(state);
+  const close = open ? CLOSING_BRACKETS[open.value] : undefined;
+  if (!open || !close || open.kind !== "punctuator") {
+    return { startIndex: state.index, endIndex: state.index };
+  }
+
+  const stack: string[] = [close];
+  state.index += 1;
+  const startIndex = state.index;
+
+  while (state.index < state.tokens.length) {
+    const token = state.tokens[state.index];
+    if (token.kind === "punctuator") {
+      const nestedClose = CLOSING_BRACKETS[token.value];
+      if (nestedClose) {
+        stack.push(nestedClose);
+      } else if (token.value === stack[stack.length - 1]) {
+        stack.pop();
+        if (stack.length === 0) {
+          const span = { startIndex, endIndex: state.index };
+          state.index += 1;
+          return span;
+        }
+      }
+    }
+    state.index += 1;
+  }
+
+  report(state, `Unterminated "${open.value}"`, open.start);
+  return { startIndex, endIndex: state.index };
+}
+
+/**
+ * Consumes tokens up to (not including) the first depth-0 token whose value is in `stops`.
+ */
+function skipUntil(state: ParserState, stops: Set<string>): TokenSpan {
+  const startIndex = state.index;
+
+  while (state.index < state.tokens.length) {
+    const token = state.tokens[state.index];
+    if (token.kind !== "string" && stops.has(token.value)) {
+      break;
+    }
+    if (token.kind === "punctuator" && CLOSING_BRACKETS[token.value]) {
+      skipBalanced(state);
+      continue;
+    }
+    state.index += 1;
+  }
+
+  return { startIndex, endIndex: state.index };
+}
+
+function spanText(state: ParserState, span: TokenSpan): string {
+  if (span.endIndex <= span.startIndex) {
+    return "";
+  }
+
+  const first = state.tokens[span.startIndex];
+  const last = state.tokens[span.endIndex - 1];
+  return state.source.slice(first.start.offset, last.end.offset).replace(/\s+/g, " ").trim();
+}
+
+function recover(state: ParserState): void {
+  while (state.index < state.tokens.length) {
+    const token = state.tokens[state.index];
+    if (token.kind === "punctuator" && token.value === "{") {
+      skipBalanced(state);
+      return;
+    }
+    if (token.kind === "punctuator" && CLOSING_BRACKETS[token.value]) {
+      skipBalanced(state);
+      continue;
+    }
+    state.index += 1;
+    if (token.kind === "punctuator" && token.value === ";") {
+      return;
+    }
+  }
+}
+
+function parseAnnotationValue(state: ParserState): AnnotationValue {
+  const token = peek(state);
+
+  if (isToken(token, "{")) {
+    return parseAnnotationMap(state);
+  }
+
+  if (isToken(token, "[")) {
+    state.index += 1;
+    const items: AnnotationValue[] = [];
+    while (state.index < state.tokens.length && !isToken(peek(state), "]")) {
+      items.push(parseAnnotationValue(state));
+      if (!accept(state, ",")) {
+        break;
+      }
+    }
+    expect(state, "]", "to close annotation array");
+    return items;
+  }
+
+  const following = peek(state, 1);
+  const isSimple =
+    !following || isToken(following, ",") || isToken(following, "}") || isToken(following, "]");
+
+  if (token && isSimple) {
+    if (token.kind === "string") {
+      state.index += 1;
+      return unquoteString(token.value);
+    }
+    if (token.kind === "number") {
+      state.index += 1;
+      return Number(token.value);
+    }
+    if (token.kind === "keyword" && (token.value === "true" || token.value === "false")) {
+      state.index += 1;
+      return token.value === "true";
+    }
+  }
+
+  return spanText(state, skipUntil(state, new Set([",", "}", "]"])));
+}
+
+function parseAnnotationMap(state: ParserState): Record<string, AnnotationValue> {
+  const entries: Record<string, AnnotationValue> = {};
+  if (!expect(state, "{", "to open annotation map")) {
+    return entries;
+  }
+
+  while (state.index < state.tokens.length && !isToken(peek(state), "}")) {
+    const keyToken = peek(state);
+    if (!keyToken || (keyToken.kind !== "string" && keyToken.kind !== "identifier")) {
+      report(state, `Unexpected "${keyToken?.value ?? "end of file"}" in annotation map`);
+      skipUntil(state, new Set(["}"]));
+      break;
+    }
+
+    state.index += 1;
+    const key = keyToken.kind === "string" ? unquoteString(keyToken.value) : keyToken.value;
+    expect(state, ":", "after annotation key");
+    entries[key] = parseAnnotationValue(state);
+
+    if (!accept(state, ",")) {
+      break;
+    }
+  }
+
+  expect(state, "}", "to close annotation map");
+  return entries;
+}
+
+function parseAnnotation(state: ParserState): Annotation {
+  const start = currentPosition(state);
+  state.index += 1;
+  let entries: Record<string, AnnotationValue> = {};
+  if (isToken(peek(state), "{")) {
+    entries = parseAnnotationMap(state);
+  } else {
+    report(state, "Expected annotation map");
+  }
+  return { entries, range: { start, end: previousEnd(state) } };
+}
+
+function parseAnnotations(state: ParserState): Annotation[] {
+  const annotations: Annotation[] = [];
+  while (isToken(peek(state), "annotation")) {
+    annotations.push(parseAnnotation(state));
+  }
+  return annotations;
+}
+
+function parseParameters(state: ParserState): Parameter[] {
+  const parameters: Parameter[] = [];
+  if (!expect(state, "(", "to open parameter list")) {
+    return parameters;
+  }
+
+  while (state.index < state.tokens.length && !isToken(peek(state), ")")) {
+    const start = currentPosition(state);
+    const nameToken = expectIdentifier(state, "for parameter name");
+    if (!nameToken) {
+      skipUntil(state, new Set([",", ")"]));
+    } else {
+      const type = accept(state, "is")
+        ? spanText(state, skipUntil(state, new Set([",", ")"])))
+        : undefined;
+      parameters.push({
+        name: nameToken.value,
+        type: type || undefined,
+        range: { start, end: previousEnd(state) }
+      });
+    }
+
+    if (!accept(state, ",")) {
+      break;
+    }
+  }
+
+  expect(state, ")", "to close parameter list");
+  return parameters;
+}
+
+function parseCallableTail(
+  state: ParserState,
+  declaration: Declaration,
+  allowReturns: boolean
+): void {
+  declaration.parameters = parseParameters(state);
+
+  if (allowReturns && accept(state, "returns")) {
+    const returnType = spanText(state, skipUntil(state, new Set(["{", "precondition", ";"])));
+    declaration.returnType = returnType || undefined;
+  }
+
+  if (accept(state, "precondition")) {
+    if (isToken(peek(state), "{")) {
+      declaration.precondition = skipBalanced(state);
+    } else {
+      report(state, `Expected precondition block for "${declaration.name}"`);
+    }
+  }
+
+  if (isToken(peek(state), "{")) {
+    declaration.body = skipBalanced(state);
+  } else {
+    report(state, `Expected body for "${declaration.name}"`);
+    recover(state);
+  }
+}
+
+/**
+ * Collects the `definition.name is Type;` and `isLength(definition.name, BOUNDS);` statements
+ * of a feature precondition along with the annotations in front of them. Declarations nested
+ * in a block (under an `if`) are marked conditional.
+ */
+function parseDefinitionParameters(state: ParserState, span: TokenSpan): DefinitionParameter[] {
+  const parameters: DefinitionParameter[] = [];
+  const resumeIndex = state.index;
+  const statementStarts = new Set([";", "{", "}"]);
+  let depth = 0;
+  state.index = span.startIndex;
+
+  while (state.index < span.endIndex) {
+    const token = state.tokens[state.index];
+    if (isToken(token, "{") || isToken(token, "}")) {
+      depth += token.value === "{" ? 1 : -1;
+      state.index += 1;
+      continue;
+    }
+
+    const previous = state.tokens[state.index - 1];
+    const atStatementStart =
+      state.index === span.startIndex || (previous && statementStarts.has(previous.value));
+    if (!atStatementStart || (!isToken(token, "annotation") && token.kind !== "identifier")) {
+      state.index += 1;
+      continue;
+    }
+
+    const start = token.start;
+    const annotations: Record<string, AnnotationValue> = {};
+    for (const annotation of parseAnnotations(state)) {
+      Object.assign(annotations, annotation.entries);
+    }
+
+    const [first, second, third, fourth, fifth] = state.tokens.slice(
+      state.index,
+      state.index + 5
+    );
+    let parameter: Omit<DefinitionParameter, "annotations" | "conditional" | "range"> | undefined;
+
+    if (
+      isToken(first, "definition") &&
+      isToken(second, ".") &&
+      third?.kind === "identifier" &&
+      isToken(fourth, "is")
+    ) {
+      state.index += 4;
+      const type = spanText(state, skipUntil(state, new Set([";"])));
+      parameter = { name: third.value, type: type || undefined };
+    } else if (
+      first?.kind === "identifier" &&
+      isToken(second, "(") &&
+      isToken(third, "definition") &&
+      isToken(fourth, ".") &&
+      fifth?.kind === "identifier"
+    ) {
+      state.index += 5;
+      const bounds = accept(state, ",") ? spanText(state, skipUntil(state, new Set([")"]))) : "";
+      parameter = { name: fifth.value, predicate: first.value, bounds: bounds || undefined };
+      skipUntil(state, new Set([";"]));
+    } else if (Object.keys(annotations).length === 0) {
+      state.index += 1;
+      continue;
+    }
+
+    if (parameter) {
+      parameters.push({
+        ...parameter,
+        annotations,
+        conditional: depth > 0,
+        range: { start, end: previousEnd(state) }
+      });
+    }
+  }
+
+  state.index = resumeIndex;
+  return parameters;
+}
+
+/**
+ * Recovers the signature of a const initialized with a function literal, either directly
+ * (`const f = function(...)`) or as the first argument of a wrapper such as `defineFeature(...)`.
+ */
+function parseLiteralSignature(state: ParserState, declaration: Declaration, span: TokenSpan): void {
+  let index = span.startIndex;
+  let wrapper: string | undefined;
+  if (state.tokens[index]?.kind === "identifier" && isToken(state.tokens[index + 1], "(")) {
+    wrapper = state.tokens[index].value;
+    index += 2;
+  }
+
+  if (!isToken(state.tokens[index], "function") || !isToken(state.tokens[index + 1], "(")) {
+    return;
+  }
+
+  const resumeIndex = state.index;
+  state.index = index + 1;
+  declaration.wrapper = wrapper;
+  declaration.parameters = parseParameters(state);
+  if (accept(state, "returns")) {
+    const returnType = spanText(state, skipUntil(state, new Set(["{", "precondition", ";"])));
+    declaration.returnType = returnType || undefined;
+  }
+  if (accept(state, "precondition") && isToken(peek(state), "{")) {
+    declaration.precondition = skipBalanced(state);
+    declaration.definitionParameters = parseDefinitionParameters(state, declaration.precondition);
+  }
+  if (isToken(peek(state), "{")) {
+    declaration.body = skipBalanced(state);
+  }
+  state.index = resumeIndex;
+}
+
+function parseEnumMembers(state: ParserState): EnumMember[] {
+  const members: EnumMember[] = [];
+  if (!expect(state, "{", "to open enum body")) {
+    return members;
+  }
+
+  while (state.index < state.tokens.length && !isToken(peek(state), "}")) {
+    const start = currentPosition(state);
+    const annotations = parseAnnotations(state);
+    const nameToken = expectIdentifier(state, "for enum member");
+    if (!nameToken) {
+      skipUntil(state, new Set([",", "}"]));
+    } else {
+      members.push({
+        name: nameToken.value,
+        annotations,
+        range: { start, end: previousEnd(state) }
+      });
+    }
+
+    if (!accept(state, ",")) {
+      break;
+    }
+  }
+
+  expect(state, "}", "to close enum body");
+  return members;
+}
+
+function parseImport(
+  state: ParserState,
+  isExport: boolean,
+  start: SourcePosition
+): ImportDeclaration | undefined {
+  let namespace: string | undefined;
+  if (peek(state)?.kind === "identifier" && isToken(peek(state, 1), "::")) {
+    namespace = peek(state)?.value;
+    state.index += 2;
+  }
+
+  expect(state, "import", "in import statement");
+  if (!isToken(peek(state), "(")) {
+    report(state, "Expected import argument list");
+    recover(state);
+    return undefined;
+  }
+
+  const argsStart = state.index + 1;
+  const args = skipBalanced(state);
+  let path: string | undefined;
+  let version: string | undefined;
+
+  for (let i = argsStart; i < args.endIndex; i += 1) {
+    const key = state.tokens[i];
+    const colon = state.tokens[i + 1];
+    const value = state.tokens[i + 2];
+    if (
+      i + 2 < args.endIndex &&
+      key.kind === "identifier" &&
+      isToken(colon, ":") &&
+      value.kind === "string"
+    ) {
+      if (key.value === "path") {
+        path = unquoteString(value.value);
+      } else if (key.value === "version") {
+        version = unquoteString(value.value);
+      }
+    }
+  }
+
+  expect(state, ";", "after import statement");
+
+  if (!path) {
+    report(state, "Import statement is missing a path", start);
+    return undefined;
+  }
+
+  return {
+    path,
+    version,
+    namespace,
+    isExport,
+    range: { start, end: previousEnd(state) }
+  };
+}
+
+function parseDeclaration(
+  state: ParserState,
+  exported: boolean,
+  annotations: Annotation[],
+  start: SourcePosition
+): Declaration | undefined {
+  const keyword = peek(state);
+  if (!keyword || keyword.kind !== "keyword") {
+    return undefined;
+  }
+
+  const kind = keyword.value;
+  if (
+    kind !== "function" &&
+    kind !== "predicate" &&
+    kind !== "type" &&
+    kind !== "enum" &&
+    kind !== "const" &&
+    kind !== "operator"
+  ) {
+    return undefined;
+  }
+
+  state.index += 1;
+  let name: string;
+
+  if (kind === "operator") {
+    const operatorToken = peek(state);
+    if (!operatorToken || operatorToken.kind !== "punctuator" || isToken(operatorToken, "(")) {
+      report(state, "Expected operator symbol");
+      recover(state);
+      return undefined;
+    }
+    state.index += 1;
+    name = `operator${operatorToken.value}`;
+  } else {
+    const nameToken = expectIdentifier(state, `after "${kind}"`);
+    if (!nameToken) {
+      recover(state);
+      return undefined;
+    }
+    name = nameToken.value;
+  }
+
+  const declaration: Declaration = {
+    kind,
+    name,
+    exported,
+    annotations,
+    range: { start, end: start }
+  };
+
+  if (kind === "function" || kind === "operator") {
+    parseCallableTail(state, declaration, true);
+  } else if (kind === "predicate") {
+    parseCallableTail(state, declaration, false);
+  } else if (kind === "type") {
+    if (expect(state, "typecheck", `after type "${name}"`)) {
+      declaration.typecheck = spanText(state, skipUntil(state, new Set([";"]))) || undefined;
+    }
+    expect(state, ";", `after type "${name}"`);
+  } else if (kind === "enum") {
+    declaration.members = parseEnumMembers(state);
+  } else {
+    if (accept(state, "is")) {
+      declaration.valueType = spanText(state, skipUntil(state, new Set(["=", ";"]))) || undefined;
+    }
+    if (expect(state, "=", `in const "${name}"`)) {
+      declaration.initializer = skipUntil(state, new Set([";"]));
+      parseLiteralSignature(state, declaration, declaration.initializer);
+    }
+    expect(state, ";", `after const "${name}"`);
+  }
+
+  declaration.range = { start, end: previousEnd(state) };
+  return declaration;
+}
+
+function pushDoc(docs: Comment[], doc: Comment | undefined): void {
+  if (doc) {
+    docs.push(doc);
+  }
+}
+
+/**
+ * Parses a module's top-level structure. A doc comment directly preceding a declaration (or its
+ * annotations) is attached to it; the first unattached doc comment before any declaration is
+ * treated as the module header.
+ */
+export function parseFeatureScript(source: string): ParsedModule {
+  const { tokens, comments } = tokenize(source);
+  const state: ParserState = { source, tokens, index: 0, diagnostics: [] };
+  const imports: ImportDeclaration[] = [];
+  const declarations: Declaration[] = [];
+  const unattachedDocs: Comment[] = [];
+  let version: number | undefined;
+  let commentCursor = 0;
+
+  while (state.index < tokens.length) {
+    const token = tokens[state.index];
+    const previousTokenEnd = state.index > 0 ? tokens[state.index - 1].end.offset : -1;
+    let leadingDoc: Comment | undefined;
+
+    while (
+      commentCursor < comments.length &&
+      comments[commentCursor].start.offset < token.start.offset
+    ) {
+      const comment = comments[commentCursor];
+      if (comment.kind === "doc") {
+        if (leadingDoc) {
+          unattachedDocs.push(leadingDoc);
+        }
+        leadingDoc = comment.start.offset >= previousTokenEnd ? comment : undefined;
+        if (!leadingDoc) {
+          unattachedDocs.push(comment);
+        }
+      }
+      commentCursor += 1;
+    }
+
+    if (isToken(token, ";")) {
+      pushDoc(unattachedDocs, leadingDoc);
+      state.index += 1;
+      continue;
+    }
+
+    if (
+      token.kind === "identifier" &&
+      token.value === "FeatureScript" &&
+      peek(state, 1)?.kind === "number"
+    ) {
+      pushDoc(unattachedDocs, leadingDoc);
+      version = Number(peek(state, 1)?.value);
+      state.index += 2;
+      expect(state, ";", "after FeatureScript version");
+      continue;
+    }
+
+    const annotations = parseAnnotations(state);
+    const start = currentPosition(state);
+    const exported = Boolean(accept(state, "export"));
+    const next = peek(state);
+
+    if (
+      isToken(next, "import") ||
+      (next?.kind === "identifier" &&
+        isToken(peek(state, 1), "::") &&
+        isToken(peek(state, 2), "import"))
+    ) {
+      pushDoc(unattachedDocs, leadingDoc);
+      const declaration = parseImport(state, exported, start);
+      if (declaration) {
+        imports.push(declaration);
+      }
+      continue;
+    }
+
+    const declaration = parseDeclaration(state, exported, annotations, start);
+    if (declaration) {
+      declaration.docComment = leadingDoc;
+      declarations.push(declaration);
+      continue;
+    }
+
+    pushDoc(unattachedDocs, leadingDoc);
+    if (state.index < tokens.length) {
+      report(state, `Unexpected "${peek(state)?.value}" at top level`);
+      recover(state);
+    } else if (annotations.length > 0 || exported) {
+      report(state, "Unexpected end of file after declaration prefix", start);
+    }
+  }
+
+  for (; commentCursor < comments.length; commentCursor += 1) {
+    if (comments[commentCursor].kind === "doc") {
+      unattachedDocs.push(comments[commentCursor]);
+    }
+  }
+
+  const firstDeclarationOffset = declarations[0]?.range.start.offset ?? Number.POSITIVE_INFINITY;
+  const moduleDoc = unattachedDocs.find(
+    (comment) => comment.start.offset < firstDeclarationOffset
+  );
+
+  return {
+    version,
+    moduleDoc,
+    tokens,
+    comments,
+    imports,
+    declarations,
+    diagnostics: state.diagnostics
+  };
+}
+
+export function countCodeLines(tokens: Token[]): number {
+  const lines = new Set<number>();
+  for (const token of tokens) {
+    for (let line = token.start.line; line <= token.end.line; line += 1) {
+      lines.add(line);
+    }
+  }
+  return lines.size;
+}
+
+export interface CallSite {
+  name: string;
+  namespace?: string;
+  position: SourcePosition;
+}
+
+/**
+ * Finds `name(...)` and `Namespace::name(...)` call sites in a token span. Builtins (`@name`),
+ * member calls (`value.name(...)`) and names bound locally by `var`, `const` or one of
+ * `localNames` are skipped since they can never refer to a module-level symbol.
+ */
+export function findCallSites(
+  tokens: Token[],
+  span: TokenSpan,
+  localNames: Iterable<string> = []
+): CallSite[] {
+  const locals = new Set(localNames);
+  for (let i = span.startIndex; i < span.endIndex - 1; i += 1) {
+    const token = tokens[i];
+    const declaresLocal = isToken(token, "var") || isToken(token, "const");
+    if (declaresLocal && tokens[i + 1].kind === "identifier") {
+      locals.add(tokens[i + 1].value);
+    }
+  }
+
+  const out: CallSite[] = [];
+  for (let i = span.startIndex; i < span.endIndex - 1; i += 1) {
+    const token = tokens[i];
+    if (token.kind !== "identifier" || !isToken(tokens[i + 1], "(")) {
+      continue;
+    }
+
+    const previous = tokens[i - 1];
+    if (isToken(previous, ".") || isToken(previous, "@")) {
+      continue;
+    }
+
+    if (isToken(previous, "::")) {
+      const namespaceToken = tokens[i - 2];
+      if (namespaceToken?.kind === "identifier") {
+        out.push({ name: token.value, namespace: namespaceToken.value, position: token.start });
+      }
+      continue;
+    }
+
+    if (!locals.has(token.value)) {
+      out.push({ name: token.value, position: token.start });
+    }
+  }
+
+  return out;
+}
+
+export interface BodyComplexity {
+  cyclomaticComplexity: number;
+  maxNesting: number;
+  statementCount: number;
+}
+
+const DECISION_TOKENS = new Set(["if", "for", "while", "catch", "&&", "||", "?"]);
+const STATEMENT_KEYWORDS = new Set(["if", "for", "while", "try"]);
+// A `{` after one of these opens a statement block; anywhere else it starts a map literal.
+const BLOCK_OPENERS = new Set([")", "else", "try", "silent", "{", "}", ";", "precondition"]);
+
+/**
+ * Measures a function body span: cyclomatic complexity (1 + branches, loops, `catch`, `&&`, `||`
+ * and `?:`), the deepest nesting of statement blocks, and the number of statements. `for` headers
+ * and map literals do not count as statements or nesting.
+ */
+export function measureBodyComplexity(tokens: Token[], span: TokenSpan): BodyComplexity {
+  let cyclomaticComplexity = 1;
+  let statementCount = 0;
+  let maxNesting = 0;
+  let parenDepth = 0;
+  const braces: boolean[] = [];
+  let blockDepth = 0;
+
+  for (let i = span.startIndex; i < span.endIndex; i += 1) {
+    const token = tokens[i];
+    if (token.kind !== "punctuator" && token.kind !== "keyword") {
+      continue;
+    }
+
+    if (DECISION_TOKENS.has(token.value)) {
+      cyclomaticComplexity += 1;
+    }
+    if (STATEMENT_KEYWORDS.has(token.value)) {
+      statementCount += 1;
+    }
+
+    if (token.value === "(") {
+      parenDepth += 1;
+    } else if (token.value === ")") {
+      parenDepth = Math.max(0, parenDepth - 1);
+    } else if (token.value === ";" && parenDepth === 0) {
+      statementCount += 1;
+    } else if (token.value === "{") {
+      const isBlock = BLOCK_OPENERS.has(tokens[i - 1]?.value ?? "");
+      braces.push(isBlock);
+      if (isBlock) {
+        blockDepth += 1;
+        maxNesting = Math.max(maxNesting, blockDepth);
+      }
+    } else if (token.value === "}") {
+      if (braces.pop()) {
+        blockDepth -= 1;
+      }
+    }
+  }
+
+  return { cyclomaticComplexity, maxNesting, statementCount };
+}
@@ -1,11 +1,24 @@
 import { mkdir, writeFile } from "node:fs/promises";
 import path from "node:path";
+import {
+  DEFAULT_MAX_RETRIES,
+  DEFAULT_ONSHAPE_API_URL,
+  fetchOnshapeItems,
+  fetchOnshapeJson,
+  resolveOnshapeCredentials,
+  toOnshapeDocumentPath
+} from "./onshapeClient.ts";
+import type { OnshapeConnection, OnshapeDocumentRef } from "./onshapeClient.ts";
 
 interface CliOptions {
   out: string;
   documentId: string;
   workspaceId: string;
+  versionId?: string;
+  pinMicroversion: boolean;
   authHeader?: string;
+  apiUrl: string;
+  maxRetries: number;
 }
 
 interface OnshapeElementRecord {
@@ -22,13 +35,25 @@ function printHelp(): void {
   console.log(`Fetch Onshape Feature Studio element IDs for source linking.
 
 Usage:
-  npm run onshape-map -- [--out tools/onshape-element-map.json] [--document-id <id>] [--workspace-id <id>] [--auth-header "Basic ..."]
+  npm run onshape-map -- [--out tools/onshape-element-map.json] [--document-id <id>] [--workspace-id <id>] [--version-id <id> | --pin-microversion] [--auth-header "Basic ..."] [--api-url <URL>] [--max-retries <n>]
+
+Pinning:
+  Workspace links follow the workspace as it changes. --version-id reads the elements of a
+  document version instead, and --pin-microversion records the workspace's current microversion;
+  either is stored in the map so the indexer emits immutable /v/ or /m/ source links.
 
 Authentication:
   Set one of:
   1) --auth-header "Basic <base64-access:secret>"
   2) ONSHAPE_AUTH_HEADER
-  3) ONSHAPE_ACCESS_KEY and ONSHAPE_SECRET_KEY
+  3) ONSHAPE_ACCESS_KEY and ONSHAPE_SECRET_KEY (requests are HMAC-signed with the API keys)
+
+Requests answered with 429 or 5xx are retried up to --max-retries times
+(default ${DEFAULT_MAX_RETRIES}), honouring Retry-After. Paged element listings are followed to
+the last page.
+
+--api-url (or ONSHAPE_API_URL) defaults to ${DEFAULT_ONSHAPE_API_URL}; point it at
+\`npm run onshape-mock\` to run without live credentials.
 `);
 }
 
@@ -36,7 +61,11 @@ function parseArgs(argv: string[]): CliOptions {
   let out = DEFAULT_OUT;
   let documentId = DEFAULT_DOCUMENT_ID;
   let workspaceId = DEFAULT_WORKSPACE_ID;
+  let versionId: string | undefined;
+  let pinMicroversion = false;
   let authHeader: string | undefined;
+  let apiUrl = process.env.ONSHAPE_API_URL?.trim() || DEFAULT_ONSHAPE_API_URL;
+  let maxRetries = DEFAULT_MAX_RETRIES;
 
   for (let i = 0; i < argv.length; i += 1) {
     const arg = argv[i];
@@ -91,6 +120,26 @@ function parseArgs(argv: string[]): CliOptions {
       continue;
     }
 
+    if (arg === "--version-id") {
+      const value = argv[i + 1] ?? "";
+      if (!value) {
+        throw new Error("Missing value for --version-id <id>");
+      }
+      versionId = value;
+      i += 1;
+      continue;
+    }
+
+    if (arg.startsWith("--version-id=")) {
+      versionId = arg.slice("--version-id=".length);
+      continue;
+    }
+
+    if (arg === "--pin-microversion") {
+      pinMicroversion = true;
+      continue;
+    }
+
     if (arg === "--auth-header") {
       const value = argv[i + 1] ?? "";
       if (!value) {
@@ -106,48 +155,64 @@ function parseArgs(argv: string[]): CliOptions {
       continue;
     }
 
+    if (arg === "--api-url") {
+      const value = argv[i + 1] ?? "";
+      if (!value) {
+        throw new Error("Missing value for --api-url <URL>");
+      }
+      apiUrl = value;
+      i += 1;
+      continue;
+    }
+
+    if (arg.startsWith("--api-url=")) {
+      apiUrl = arg.slice("--api-url=".length);
+      continue;
+    }
+
+    if (arg === "--max-retries") {
+      maxRetries = parseMaxRetries(argv[i + 1] ?? "");
+      i += 1;
+      continue;
+    }
+
+    if (arg.startsWith("--max-retries=")) {
+      maxRetries = parseMaxRetries(arg.slice("--max-retries=".length));
+      continue;
+    }
+
     throw new Error(`Unknown argument: ${arg}`);
   }
 
+  if (versionId && pinMicroversion) {
+    throw new Error("--version-id and --pin-microversion are mutually exclusive");
+  }
+
   return {
     out: path.resolve(process.cwd(), out),
     documentId,
     workspaceId,
-    authHeader
+    versionId,
+    pinMicroversion,
+    authHeader,
+    apiUrl,
+    maxRetries
   };
 }
 
-function resolveAuthHeader(cliHeader?: string): string {
-  if (cliHeader && cliHeader.trim().length > 0) {
-    return cliHeader.trim();
-  }
-
-  const envHeader = process.env.ONSHAPE_AUTH_HEADER?.trim();
-  if (envHeader) {
-    return envHeader;
-  }
-
-  const accessKey = process.env.ONSHAPE_ACCESS_KEY?.trim();
-  const secretKey = process.env.ONSHAPE_SECRET_KEY?.trim();
-  if (accessKey && secretKey) {
-    const credentials = Buffer.from(`${accessKey}:${secretKey}`, "utf8").toString("base64");
-    return `Basic ${credentials}`;
+function parseMaxRetries(value: string): number {
+  const count = Number(value);
+  if (!value || !Number.isInteger(count) || count < 0) {
+    throw new Error(`--max-retries expects a non-negative integer, got "${value}"`);
   }
-
-  throw new Error(
-    "Missing Onshape auth. Provide --auth-header, or set ONSHAPE_AUTH_HEADER, or set ONSHAPE_ACCESS_KEY and ONSHAPE_SECRET_KEY."
-  );
+  return count;
 }
 
 function isRecord(value: unknown): value is Record<string, unknown> {
   return Boolean(value) && typeof value === "object" && !Array.isArray(value);
 }
 
-function parseElementRecords(payload: unknown): OnshapeElementRecord[] {
-  if (!Array.isArray(payload)) {
-    throw new Error("Unexpected Onshape API response: expected array.");
-  }
-
+function parseElementRecords(payload: unknown[]): OnshapeElementRecord[] {
   const out: OnshapeElementRecord[] = [];
   for (const entry of payload) {
     if (!isRecord(entry)) {
@@ -167,28 +232,48 @@ function parseElementRecords(payload: unknown): OnshapeElementRecord[] {
   return out;
 }
 
+async function resolveDocumentRef(
+  connection: OnshapeConnection,
+  options: CliOptions
+): Promise<OnshapeDocumentRef> {
+  const documentId = options.documentId;
+  if (options.versionId) {
+    return { documentId, wvm: "v", wvmId: options.versionId };
+  }
+
+  const workspace: OnshapeDocumentRef = { documentId, wvm: "w", wvmId: options.workspaceId };
+  if (!options.pinMicroversion) {
+    return workspace;
+  }
+
+  const payload = await fetchOnshapeJson(
+    connection,
+    `/api/v6/documents/d/${toOnshapeDocumentPath(workspace)}/currentmicroversion`
+  );
+  if (!isRecord(payload) || typeof payload.microversion !== "string" || !payload.microversion) {
+    throw new Error("Unexpected Onshape API response: expected { microversion }.");
+  }
+  return { documentId, wvm: "m", wvmId: payload.microversion };
+}
+
 async function ensureDirectory(filePath: string): Promise<void> {
   await mkdir(path.dirname(filePath), { recursive: true });
 }
 
 async function main(): Promise<void> {
   const options = parseArgs(process.argv.slice(2));
-  const authHeader = resolveAuthHeader(options.authHeader);
-
-  const url = `https://cad.onshape.com/api/v6/documents/d/${encodeURIComponent(options.documentId)}/w/${encodeURIComponent(options.workspaceId)}/elements?withThumbnails=false`;
-  const response = await fetch(url, {
-    headers: {
-      Authorization: authHeader,
-      Accept: "application/json"
-    }
-  });
-
-  if (!response.ok) {
-    const body = await response.text();
-    throw new Error(`Onshape API request failed (${response.status}): ${body.slice(0, 300)}`);
-  }
+  const connection: OnshapeConnection = {
+    baseUrl: options.apiUrl,
+    credentials: resolveOnshapeCredentials(options.authHeader),
+    maxRetries: options.maxRetries,
+    onRetry: (message: string) => console.warn(`Retrying: ${message}`)
+  };
 
-  const records = parseElementRecords(await response.json());
+  // Listing the elements of the pinned state keeps ids consistent with the links built from it.
+  const documentRef = await resolveDocumentRef(connection, options);
+  const resource =
+    `/api/v6/documents/d/${toOnshapeDocumentPath(documentRef)}/elements` + "?withThumbnails=false";
+  const records = parseElementRecords(await fetchOnshapeItems(connection, resource));
   const elementsByName: Record<string, string> = {};
   const duplicateNames: string[] = [];
   let featureStudioCount = 0;
@@ -213,6 +298,8 @@ async function main(): Promise<void> {
   const output = {
     documentId: options.documentId,
     workspaceId: options.workspaceId,
+    versionId: documentRef.wvm === "v" ? documentRef.wvmId : undefined,
+    microversionId: documentRef.wvm === "m" ? documentRef.wvmId : undefined,
     generatedAt: new Date().toISOString(),
     totalElements: records.length,
     featureStudioElements: featureStudioCount,
@@ -225,6 +312,11 @@ async function main(): Promise<void> {
 
   console.log(`Document: ${options.documentId}`);
   console.log(`Workspace: ${options.workspaceId}`);
+  if (documentRef.wvm === "v") {
+    console.log(`Version: ${documentRef.wvmId}`);
+  } else if (documentRef.wvm === "m") {
+    console.log(`Microversion: ${documentRef.wvmId}`);
+  }
   console.log(`Elements fetched: ${records.length}`);
   console.log(`Feature Studios: ${featureStudioCount}`);
   console.log(`.fs mappings: ${output.fsElementCount}`);
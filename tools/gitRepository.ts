@@ -0,0 +1,158 @@
+import { execFile, spawn } from "node:child_process";
+import { compareStrings } from "../src/graphTraversal.ts";
+
+export interface GitCommit {
+  ref: string;
+  commit: string;
+  committedAt: string;
+  subject: string;
+}
+
+export interface GitBlobFile {
+  filePath: string;
+  raw: string;
+}
+
+const GIT_MAX_BUFFER = 256 * 1024 * 1024;
+const COMMIT_FORMAT = "%H%x00%cI%x00%s";
+
+function runGit(cwd: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      "git",
+      ["-C", cwd, ...args],
+      { encoding: "utf8", maxBuffer: GIT_MAX_BUFFER },
+      (error, stdout, stderr) => {
+        if (error) {
+          const detail = stderr.trim() || error.message;
+          reject(new Error(`git ${args.join(" ")} failed: ${detail}`));
+          return;
+        }
+        resolve(stdout);
+      }
+    );
+  });
+}
+
+function parseCommitLine(ref: string, line: string): GitCommit {
+  const [commit, committedAt, subject] = line.split("\u0000");
+  return { ref, commit, committedAt, subject: subject ?? "" };
+}
+
+/** Resolves a branch, tag or commit-ish in the repository containing `cwd` to a commit. */
+export async function resolveGitCommit(cwd: string, ref: string): Promise<GitCommit> {
+  const output = await runGit(cwd, [
+    "log",
+    "-1",
+    `--format=${COMMIT_FORMAT}`,
+    `${ref}^{commit}`,
+    "--"
+  ]);
+  return parseCommitLine(ref, output.trim());
+}
+
+/**
+ * Lists the commits of a `<from>..<to>` range along the first-parent history, oldest first. The
+ * `from` commit itself is included so the first graph is the baseline the rest evolve from.
+ */
+export async function listGitRange(cwd: string, range: string): Promise<GitCommit[]> {
+  if (range.includes("...")) {
+    throw new Error(`Symmetric git ranges are not supported: ${range} (expected <from>..<to>)`);
+  }
+  const match = /^(.+?)\.\.(.+)$/.exec(range);
+  if (!match) {
+    throw new Error(`Invalid git range: ${range} (expected <from>..<to>)`);
+  }
+
+  const output = await runGit(cwd, [
+    "log",
+    "--reverse",
+    "--first-parent",
+    `--format=${COMMIT_FORMAT}`,
+    range,
+    "--"
+  ]);
+  const commits = output
+    .split("\n")
+    .filter((line) => line.length > 0)
+    .map((line) => {
+      const commit = parseCommitLine("", line);
+      return { ...commit, ref: commit.commit.slice(0, 12) };
+    });
+
+  // Name the endpoints after the refs given, so a tag range yields `graph-v1.json`/`graph-v2.json`.
+  const last = commits[commits.length - 1];
+  if (last) {
+    last.ref = match[2];
+  }
+  return [await resolveGitCommit(cwd, match[1]), ...commits];
+}
+
+/** Streams blob contents through a single `git cat-file --batch` process. */
+function readGitBlobs(cwd: string, objectIds: string[]): Promise<string[]> {
+  if (objectIds.length === 0) {
+    return Promise.resolve([]);
+  }
+
+  return new Promise((resolve, reject) => {
+    const child = spawn("git", ["-C", cwd, "cat-file", "--batch"], {
+      stdio: ["pipe", "pipe", "pipe"]
+    });
+    const chunks: Buffer[] = [];
+    let stderr = "";
+
+    child.stdout.on("data", (chunk: Buffer) => chunks.push(chunk));
+    child.stderr.on("data", (chunk: Buffer) => {
+      stderr += chunk.toString("utf8");
+    });
+    child.on("error", reject);
+    child.on("close", (code) => {
+      if (code !== 0) {
+        reject(new Error(`git cat-file --batch failed: ${stderr.trim() || `exit code ${code}`}`));
+        return;
+      }
+
+      const output = Buffer.concat(chunks);
+      const contents: string[] = [];
+      let offset = 0;
+      for (const objectId of objectIds) {
+        const headerEnd = output.indexOf(0x0a, offset);
+        const header = output.toString("utf8", offset, headerEnd);
+        const match = /^[0-9a-f]+ blob (\d+)$/.exec(header);
+        if (!match) {
+          reject(new Error(`Unexpected git cat-file output for ${objectId}: ${header}`));
+          return;
+        }
+
+        const start = headerEnd + 1;
+        const end = start + Number(match[1]);
+        contents.push(output.toString("utf8", start, end));
+        offset = end + 1;
+      }
+      resolve(contents);
+    });
+
+    child.stdin.end(`${objectIds.join("\n")}\n`);
+  });
+}
+
+/**
+ * Reads every `.fs` blob under `cwd` as of `commit` without touching the working tree. Paths are
+ * relative to `cwd`, matching what a working-tree walk of the same directory would produce.
+ */
+export async function readGitFsFiles(cwd: string, commit: string): Promise<GitBlobFile[]> {
+  const listing = await runGit(cwd, ["ls-tree", "-r", "-z", commit, "--", "."]);
+  const entries: Array<{ objectId: string; filePath: string }> = [];
+
+  for (const entry of listing.split("\u0000")) {
+    const match = /^\d+ blob ([0-9a-f]+)\t(.+)$/.exec(entry);
+    if (match && match[2].toLowerCase().endsWith(".fs")) {
+      entries.push({ objectId: match[1], filePath: match[2] });
+    }
+  }
+
+  // Same code-unit order as the indexer's working-tree walk.
+  entries.sort((a, b) => compareStrings(a.filePath, b.filePath));
+  const contents = await readGitBlobs(cwd, entries.map((entry) => entry.objectId));
+  return entries.map((entry, index) => ({ filePath: entry.filePath, raw: contents[index] }));
+}
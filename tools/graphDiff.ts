@@ -0,0 +1,187 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { computeGraphDiff } from "../src/graphDiff.ts";
+import type { GraphDiff, GraphSnapshotInfo, ModuleEdgeRef } from "../src/graphDiff.ts";
+import { parseGraphJson } from "../src/graphSchema.ts";
+import type { GraphJson } from "../src/types.ts";
+
+interface CliOptions {
+  before: string;
+  after: string;
+  json: boolean;
+  out?: string;
+}
+
+function printHelp(): void {
+  console.log(`Compare two graph.json snapshots
+
+Usage:
+  npm run diff -- <BEFORE.json> <AFTER.json> [--json] [--out <PATH>]
+
+Reports added/removed modules, added/removed import and reexport edges, changed exports per
+module, and LOC/function-count deltas. --json prints the report as JSON instead of text; --out
+writes it to a file instead of stdout.
+`);
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const files: string[] = [];
+  let json = false;
+  let out: string | undefined;
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+
+    if (arg === "--help" || arg === "-h") {
+      printHelp();
+      process.exit(0);
+    }
+
+    if (arg === "--json") {
+      json = true;
+      continue;
+    }
+
+    if (arg === "--out") {
+      const value = argv[i + 1] ?? "";
+      if (!value) {
+        throw new Error("Missing value for --out <PATH>");
+      }
+      out = value;
+      i += 1;
+      continue;
+    }
+
+    if (arg.startsWith("--out=")) {
+      out = arg.slice("--out=".length);
+      continue;
+    }
+
+    if (arg.startsWith("-")) {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+
+    files.push(arg);
+  }
+
+  if (files.length !== 2) {
+    throw new Error("Expected exactly two graph files: <BEFORE.json> <AFTER.json>");
+  }
+
+  return {
+    before: path.resolve(process.cwd(), files[0]),
+    after: path.resolve(process.cwd(), files[1]),
+    json,
+    out: out ? path.resolve(process.cwd(), out) : undefined
+  };
+}
+
+async function loadGraph(filePath: string): Promise<GraphJson> {
+  const raw = await readFile(filePath, "utf8").catch(() => undefined);
+  if (raw === undefined) {
+    throw new Error(`Graph file does not exist: ${filePath}`);
+  }
+
+  return parseGraphJson(JSON.parse(raw), filePath);
+}
+
+function formatDelta(before: number, after: number): string {
+  const delta = after - before;
+  return `${before} -> ${after} (${delta >= 0 ? "+" : ""}${delta})`;
+}
+
+function formatSnapshot(label: string, filePath: string, snapshot: GraphSnapshotInfo): string {
+  const ref = snapshot.gitRef
+    ? ` ${snapshot.gitRef}${snapshot.commit ? ` @ ${snapshot.commit.slice(0, 12)}` : ""}`
+    : "";
+  return `${label}: ${filePath}${ref} (generated ${snapshot.generatedAt || "unknown"})`;
+}
+
+function formatEdge(edge: ModuleEdgeRef): string {
+  return `${edge.kind.padEnd(8)} ${edge.source} -> ${edge.target}`;
+}
+
+function formatTextReport(diff: GraphDiff, options: CliOptions): string {
+  const lines: string[] = [
+    formatSnapshot("Before", options.before, diff.before),
+    formatSnapshot("After", options.after, diff.after),
+    "",
+    `Modules:   ${formatDelta(diff.before.moduleCount, diff.after.moduleCount)}`,
+    `Edges:     ${formatDelta(diff.before.edgeCount, diff.after.edgeCount)}`,
+    `LOC:       ${formatDelta(diff.before.loc, diff.after.loc)}`,
+    `Functions: ${formatDelta(diff.before.functionCount, diff.after.functionCount)}`
+  ];
+
+  function section(title: string, entries: string[], count = entries.length): void {
+    if (entries.length === 0) {
+      return;
+    }
+    lines.push("", `${title} (${count}):`, ...entries.map((entry) => `  ${entry}`));
+  }
+
+  section(
+    "Added modules",
+    diff.addedModules.map(
+      (module) => `+ ${module.id} (${module.loc} LOC, ${module.functionCount} functions)`
+    )
+  );
+  section(
+    "Removed modules",
+    diff.removedModules.map(
+      (module) => `- ${module.id} (${module.loc} LOC, ${module.functionCount} functions)`
+    )
+  );
+  section("Added edges", diff.addedEdges.map((edge) => `+ ${formatEdge(edge)}`));
+  section("Removed edges", diff.removedEdges.map((edge) => `- ${formatEdge(edge)}`));
+  section(
+    "Changed modules",
+    diff.changedModules.flatMap((change) => {
+      const loc = formatDelta(change.locBefore, change.locAfter);
+      const functions = formatDelta(change.functionCountBefore, change.functionCountAfter);
+      const entries = [`~ ${change.id}: LOC ${loc}, functions ${functions}`];
+      if (change.exportsAdded.length > 0) {
+        entries.push(`    + exports: ${change.exportsAdded.join(", ")}`);
+      }
+      if (change.exportsRemoved.length > 0) {
+        entries.push(`    - exports: ${change.exportsRemoved.join(", ")}`);
+      }
+      return entries;
+    }),
+    diff.changedModules.length
+  );
+
+  const unchanged =
+    diff.addedModules.length === 0 &&
+    diff.removedModules.length === 0 &&
+    diff.addedEdges.length === 0 &&
+    diff.removedEdges.length === 0 &&
+    diff.changedModules.length === 0;
+  if (unchanged) {
+    lines.push("", "No module-level changes.");
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  const diff = computeGraphDiff(await loadGraph(options.before), await loadGraph(options.after));
+  const report = options.json
+    ? `${JSON.stringify(diff, null, 2)}\n`
+    : formatTextReport(diff, options);
+
+  if (options.out) {
+    await mkdir(path.dirname(options.out), { recursive: true });
+    await writeFile(options.out, report, "utf8");
+    console.log(`Wrote: ${options.out}`);
+    return;
+  }
+
+  process.stdout.write(report);
+}
+
+main().catch((error: unknown) => {
+  const message = error instanceof Error ? error.message : String(error);
+  console.error(`Graph diff failed: ${message}`);
+  process.exitCode = 1;
+});
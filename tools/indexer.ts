@@ -1,86 +1,266 @@
-import { mkdir, readdir, readFile, stat, writeFile } from "node:fs/promises";
+import { createHash } from "node:crypto";
+import { watch } from "node:fs";
+import { mkdir, readdir, readFile, rename, stat, writeFile } from "node:fs/promises";
 import path from "node:path";
+import { fingerprintBody, findDuplicateGroups } from "./duplicateFunctions.ts";
+import type { FunctionFingerprint } from "./duplicateFunctions.ts";
+import { parseDocComment } from "./featureScriptDoc.ts";
+import {
+  DEFAULT_MAX_RETRIES,
+  DEFAULT_ONSHAPE_API_URL,
+  resolveOnshapeCredentials,
+  toOnshapeDocumentPath
+} from "./onshapeClient.ts";
+import type { OnshapeConnection, OnshapeDocumentRef } from "./onshapeClient.ts";
+import { parseOnshapeRoot, readOnshapeFsFiles } from "./onshapeSources.ts";
+import {
+  countCodeLines,
+  findCallSites,
+  measureBodyComplexity,
+  parseFeatureScript
+} from "./featureScriptParser.ts";
+import type { Declaration, ParsedModule } from "./featureScriptParser.ts";
+import { listGitRange, readGitFsFiles, resolveGitCommit } from "./gitRepository.ts";
+import type { GitBlobFile, GitCommit } from "./gitRepository.ts";
+import { GRAPH_SCHEMA_VERSION, toEdgeId } from "../src/graphSchema.ts";
+import { compareStrings, findCycles } from "../src/graphTraversal.ts";
+import type {
+  AnnotationValue,
+  CallGraphNodeData,
+  DocComment,
+  DuplicateCluster,
+  DuplicateFunction,
+  FeatureRecord,
+  FunctionMetrics,
+  GraphEdgeData,
+  GraphJson,
+  GraphNodeData,
+  ModuleComplexity,
+  SymbolKind,
+  SymbolRecord
+} from "../src/types.ts";
 
 interface ParsedFile {
   id: string;
   filePath: string;
+  library: string;
+  hash: string;
+  diagnostics: string[];
   loc: number;
   functionCount: number;
+  complexity?: ModuleComplexity;
   isGenerated: boolean;
   imports: string[];
   reexports: string[];
+  importStatements: ImportStatement[];
   exportedSymbols: string[];
+  symbols: SymbolRecord[];
+  moduleDoc?: DocComment;
   tokens: Set<string>;
+  scopeImports: string[];
+  namespaceImports: Array<{ namespace: string; path: string }>;
+  declaredNames: string[];
+  callables: CallableRecord[];
+  features: FeatureRecord[];
+  signatureTypeNames: Array<{ symbol: string; names: string[] }>;
 }
 
-interface NodeData {
-  id: string;
-  label: string;
-  filePath: string;
-  modulePath: string;
-  sourceUrl?: string;
-  loc: number;
-  functionCount: number;
-  isGenerated?: boolean;
-  imports: string[];
-  reexports: string[];
-  importTargets: string[];
-  reexportTargets: string[];
-  importCount: number;
-  reexportCount: number;
-  exports: string[];
-  exportCount: number;
-  symbolUsers: Record<string, string[]>;
-  isVirtual?: boolean;
+interface CachedFile extends Omit<ParsedFile, "tokens"> {
+  tokens: string[];
 }
 
-interface EdgeData {
-  id: string;
-  source: string;
-  target: string;
+interface IndexCache {
+  version: number;
+  files: Record<string, CachedFile>;
+}
+
+interface ImportStatement {
   kind: "import" | "reexport";
+  target: string;
+  rawPath: string;
+  version?: string;
+  line: number;
+}
+
+interface CallableRecord {
+  name: string;
+  kind: SymbolKind;
+  exported: boolean;
+  startLine: number;
+  endLine: number;
+  metrics?: FunctionMetrics;
+  fingerprint?: FunctionFingerprint;
+  calls: Array<{ name: string; namespace?: string; line: number }>;
 }
 
-interface GraphOutput {
+interface ResolvedExport {
+  moduleId: string;
+  via: string[];
+}
+
+interface ModuleScope {
+  scope: Map<string, ResolvedExport>;
+  namespaces: Map<string, Map<string, ResolvedExport>>;
+}
+
+interface LibraryRoot {
+  label: string;
   root: string;
-  generatedAt: string;
-  elements: {
-    nodes: Array<{ data: NodeData }>;
-    edges: Array<{ data: EdgeData }>;
-  };
+  /** Set for `onshape:` roots, whose Feature Studios are downloaded instead of read from disk. */
+  onshape?: OnshapeDocumentRef;
 }
 
+interface LibraryFile extends GitBlobFile {
+  elementId?: string;
+}
+
+// The indexer always emits the sections that are optional in the shared schema.
+type GraphOutput = GraphJson &
+  Required<Pick<GraphJson, "libraries" | "callGraph" | "features" | "duplicates">>;
+
 interface CliOptions {
-  root: string;
+  roots: LibraryRoot[];
   out: string;
   onshapeMap?: string;
   onshapeDocumentId?: string;
   onshapeWorkspaceId?: string;
+  onshapeVersionId?: string;
+  onshapeMicroversionId?: string;
+  apiUrl: string;
+  webUrl: string;
+  onshapeCache?: string;
+  cache?: string;
+  watch: boolean;
+  gitRefs: string[];
+  gitRange?: string;
+  generatedAt?: string;
+  omitTimestamp: boolean;
+}
+
+interface OnshapeSourceConfig {
+  documentRef: OnshapeDocumentRef;
+  elementsByName: Record<string, string>;
+  webUrl: string;
+}
+
+interface OnshapeLibraryContext {
+  connection: OnshapeConnection;
+  cacheDir?: string;
+  webUrl: string;
 }
 
 interface OnshapeElementMap {
   documentId?: string;
   workspaceId?: string;
+  versionId?: string;
+  microversionId?: string;
   elementsByName?: Record<string, string>;
 }
 
 const DEFAULT_ONSHAPE_STD_DOCUMENT_ID = "12312312345abcabcabcdeff";
 const DEFAULT_ONSHAPE_STD_WORKSPACE_ID = "a855e4161c814f2e9ab3698a";
+const MAX_REPORTED_DIAGNOSTICS = 20;
+const DEFAULT_CACHE_PATH = "node_modules/.cache/fs-indexer/cache.json";
+const DEFAULT_ONSHAPE_CACHE_DIR = "node_modules/.cache/fs-indexer/onshape";
+const DEFAULT_ONSHAPE_WEB_URL = "https://cad.onshape.com";
+// Bump whenever the shape of ParsedFile or the parser output it is derived from changes.
+const INDEX_CACHE_VERSION = 4;
+const WATCH_DEBOUNCE_MS = 150;
 
 function printHelp(): void {
   console.log(`FeatureScript stdlib indexer
 
 Usage:
-  npm run index -- --root <PATH_TO_STDLIB> [--out public/graph.json] [--onshape-map tools/onshape-element-map.json] [--onshape-document-id <id>] [--onshape-workspace-id <id>]
+  npm run index -- --root [<label>=]<PATH> [--root [<label>=]<PATH> ...] [--out public/graph.json] [--onshape-map tools/onshape-element-map.json] [--onshape-document-id <id>] [--onshape-workspace-id <id> | --onshape-version-id <id> | --onshape-microversion-id <id>] [--api-url <URL>] [--web-url <URL>] [--onshape-cache <dir>] [--cache <path> | --no-cache] [--watch] [--git-ref <ref> ... | --git-range <from>..<to>] [--timestamp <ISO> | --no-timestamp]
+
+Each --root is indexed as a separate library (labelled by the folder name unless a label is
+given); imports resolve across libraries, preferring modules from the importer's own library.
+With several roots, module ids are prefixed with the library label.
+
+A root of the form onshape:<documentId>/<w|v|m>/<id> is read from an Onshape document instead
+of a folder: its Feature Studios are downloaded through the API (--api-url or ONSHAPE_API_URL,
+default ${DEFAULT_ONSHAPE_API_URL}; auth from ONSHAPE_AUTH_HEADER or ONSHAPE_ACCESS_KEY and
+ONSHAPE_SECRET_KEY) and cached under --onshape-cache (default ${DEFAULT_ONSHAPE_CACHE_DIR}).
+Imports that name a Feature Studio by element id resolve to it when it is in the importer's
+document (or, for <document>/<version>/<element> paths, in an onshape: root of that document),
+and its modules link to their Onshape tabs.
+
+With --watch the indexer stays running and rewrites the output whenever a .fs file under the
+root changes; a running dev server picks the new graph up without a page reload.
+
+With --git-ref (repeatable) or --git-range <from>..<to>, the first root is read from its git
+repository at each ref instead of the working tree, and one graph is written per ref. A single
+ref writes to --out; several refs write <out>-<ref>.json next to it. Ranges follow first-parent
+history and include the <from> commit.
+
+Output is deterministic: edge ids derive from kind/source/target and everything is sorted. Only
+generatedAt varies between runs; fix it with --timestamp <ISO> (or SOURCE_DATE_EPOCH) or leave it
+out with --no-timestamp to get byte-identical output for identical input.
+
+Source links point at the Onshape workspace unless the element map (or --onshape-version-id /
+--onshape-microversion-id) pins a version or microversion, which yields permalinks that do not
+change as the workspace moves on. They open on --web-url (or ONSHAPE_WEB_URL, default
+${DEFAULT_ONSHAPE_WEB_URL}), which is independent of --api-url; set it for enterprise domains.
+
+Unchanged files (by content hash) reuse their parsed records from the cache, which defaults to
+${DEFAULT_CACHE_PATH}.
 `);
 }
 
+function parseRootArgument(value: string): LibraryRoot {
+  if (!value) {
+    throw new Error("Missing value for --root [<label>=]<PATH>");
+  }
+
+  const match = /^([A-Za-z0-9_.-]+)=(.+)$/.exec(value);
+  const rootValue = match ? match[2] : value;
+  const onshape = parseOnshapeRoot(rootValue);
+  if (onshape) {
+    const label = match ? match[1] : `onshape-${onshape.documentId.slice(0, 8)}`;
+    return { label, root: rootValue, onshape };
+  }
+
+  const root = path.resolve(rootValue);
+  return { label: match ? match[1] : path.basename(root), root };
+}
+
+/** Source links are built from the origin alone, so any path on the URL is dropped. */
+function parseWebUrl(value: string): string {
+  try {
+    return new URL(value).origin;
+  } catch {
+    throw new Error(`Invalid value for --web-url: ${value || "(empty)"}`);
+  }
+}
+
+/** Accepts an ISO date or `@<seconds>` (the SOURCE_DATE_EPOCH form) and normalizes to ISO. */
+function parseTimestamp(value: string, source: string): string {
+  const time = value.startsWith("@") ? Number(value.slice(1)) * 1000 : Date.parse(value);
+  if (!value || !Number.isFinite(time)) {
+    throw new Error(`Invalid timestamp for ${source}: ${value || "(empty)"}`);
+  }
+  return new Date(time).toISOString();
+}
+
 function parseArgs(argv: string[]): CliOptions {
-  let root = "";
+  const roots: LibraryRoot[] = [];
   let out = "public/graph.json";
   let onshapeMap: string | undefined;
   let onshapeDocumentId: string | undefined;
   let onshapeWorkspaceId: string | undefined;
+  let onshapeVersionId: string | undefined;
+  let onshapeMicroversionId: string | undefined;
+  let apiUrl = process.env.ONSHAPE_API_URL?.trim() || DEFAULT_ONSHAPE_API_URL;
+  let webUrl = process.env.ONSHAPE_WEB_URL?.trim() || DEFAULT_ONSHAPE_WEB_URL;
+  let onshapeCache: string | undefined = DEFAULT_ONSHAPE_CACHE_DIR;
+  let cache: string | undefined = DEFAULT_CACHE_PATH;
+  let watchRoot = false;
+  const gitRefs: string[] = [];
+  let gitRange: string | undefined;
+  let generatedAt = process.env.SOURCE_DATE_EPOCH
+    ? parseTimestamp(`@${process.env.SOURCE_DATE_EPOCH}`, "SOURCE_DATE_EPOCH")
+    : undefined;
+  let omitTimestamp = false;
 
   for (let i = 0; i < argv.length; i += 1) {
     const arg = argv[i];
@@ -91,13 +271,13 @@ function parseArgs(argv: string[]): CliOptions {
     }
 
     if (arg === "--root") {
-      root = argv[i + 1] ?? "";
+      roots.push(parseRootArgument(argv[i + 1] ?? ""));
       i += 1;
       continue;
     }
 
     if (arg.startsWith("--root=")) {
-      root = arg.slice("--root=".length);
+      roots.push(parseRootArgument(arg.slice("--root=".length)));
       continue;
     }
 
@@ -157,19 +337,205 @@ function parseArgs(argv: string[]): CliOptions {
       continue;
     }
 
+    if (arg === "--onshape-version-id") {
+      const value = argv[i + 1] ?? "";
+      if (!value) {
+        throw new Error("Missing value for --onshape-version-id <id>");
+      }
+      onshapeVersionId = value;
+      i += 1;
+      continue;
+    }
+
+    if (arg.startsWith("--onshape-version-id=")) {
+      onshapeVersionId = arg.slice("--onshape-version-id=".length);
+      continue;
+    }
+
+    if (arg === "--onshape-microversion-id") {
+      const value = argv[i + 1] ?? "";
+      if (!value) {
+        throw new Error("Missing value for --onshape-microversion-id <id>");
+      }
+      onshapeMicroversionId = value;
+      i += 1;
+      continue;
+    }
+
+    if (arg.startsWith("--onshape-microversion-id=")) {
+      onshapeMicroversionId = arg.slice("--onshape-microversion-id=".length);
+      continue;
+    }
+
+    if (arg === "--api-url") {
+      const value = argv[i + 1] ?? "";
+      if (!value) {
+        throw new Error("Missing value for --api-url <URL>");
+      }
+      apiUrl = value;
+      i += 1;
+      continue;
+    }
+
+    if (arg.startsWith("--api-url=")) {
+      apiUrl = arg.slice("--api-url=".length);
+      continue;
+    }
+
+    if (arg === "--web-url") {
+      const value = argv[i + 1] ?? "";
+      if (!value) {
+        throw new Error("Missing value for --web-url <URL>");
+      }
+      webUrl = value;
+      i += 1;
+      continue;
+    }
+
+    if (arg.startsWith("--web-url=")) {
+      webUrl = arg.slice("--web-url=".length);
+      continue;
+    }
+
+    if (arg === "--onshape-cache") {
+      const value = argv[i + 1] ?? "";
+      if (!value) {
+        throw new Error("Missing value for --onshape-cache <DIR>");
+      }
+      onshapeCache = value;
+      i += 1;
+      continue;
+    }
+
+    if (arg.startsWith("--onshape-cache=")) {
+      onshapeCache = arg.slice("--onshape-cache=".length);
+      continue;
+    }
+
+    if (arg === "--cache") {
+      const value = argv[i + 1] ?? "";
+      if (!value) {
+        throw new Error("Missing value for --cache <PATH>");
+      }
+      cache = value;
+      i += 1;
+      continue;
+    }
+
+    if (arg.startsWith("--cache=")) {
+      cache = arg.slice("--cache=".length);
+      continue;
+    }
+
+    if (arg === "--no-cache") {
+      cache = undefined;
+      onshapeCache = undefined;
+      continue;
+    }
+
+    if (arg === "--watch") {
+      watchRoot = true;
+      continue;
+    }
+
+    if (arg === "--git-ref") {
+      const value = argv[i + 1] ?? "";
+      if (!value) {
+        throw new Error("Missing value for --git-ref <ref>");
+      }
+      gitRefs.push(value);
+      i += 1;
+      continue;
+    }
+
+    if (arg.startsWith("--git-ref=")) {
+      gitRefs.push(arg.slice("--git-ref=".length));
+      continue;
+    }
+
+    if (arg === "--git-range") {
+      const value = argv[i + 1] ?? "";
+      if (!value) {
+        throw new Error("Missing value for --git-range <from>..<to>");
+      }
+      gitRange = value;
+      i += 1;
+      continue;
+    }
+
+    if (arg.startsWith("--git-range=")) {
+      gitRange = arg.slice("--git-range=".length);
+      continue;
+    }
+
+    if (arg === "--timestamp") {
+      generatedAt = parseTimestamp(argv[i + 1] ?? "", "--timestamp");
+      i += 1;
+      continue;
+    }
+
+    if (arg.startsWith("--timestamp=")) {
+      generatedAt = parseTimestamp(arg.slice("--timestamp=".length), "--timestamp");
+      continue;
+    }
+
+    if (arg === "--no-timestamp") {
+      omitTimestamp = true;
+      continue;
+    }
+
     throw new Error(`Unknown argument: ${arg}`);
   }
 
-  if (!root) {
+  if (roots.length === 0) {
     throw new Error("Missing required argument: --root <PATH_TO_STDLIB>");
   }
 
+  const labels = new Set<string>();
+  for (const library of roots) {
+    if (labels.has(library.label)) {
+      throw new Error(`Duplicate library label: ${library.label} (use --root <label>=<PATH>)`);
+    }
+    labels.add(library.label);
+  }
+
+  if (gitRange && gitRefs.length > 0) {
+    throw new Error("Use either --git-ref or --git-range, not both");
+  }
+  if ([onshapeWorkspaceId, onshapeVersionId, onshapeMicroversionId].filter(Boolean).length > 1) {
+    throw new Error(
+      "Pass at most one of --onshape-workspace-id, --onshape-version-id and " +
+        "--onshape-microversion-id"
+    );
+  }
+
+  if (watchRoot && (gitRange || gitRefs.length > 0)) {
+    throw new Error("--watch reads the working tree and cannot be combined with git refs");
+  }
+  if (watchRoot && roots.some((library) => library.onshape)) {
+    throw new Error("--watch only watches local folders and cannot be used with onshape: roots");
+  }
+  if (roots[0].onshape && (gitRange || gitRefs.length > 0)) {
+    throw new Error("Git refs read the first root from git, so it must be a local folder");
+  }
+
   return {
-    root: path.resolve(root),
+    roots,
     out: path.resolve(process.cwd(), out),
     onshapeMap: onshapeMap ? path.resolve(process.cwd(), onshapeMap) : undefined,
     onshapeDocumentId,
-    onshapeWorkspaceId
+    onshapeWorkspaceId,
+    onshapeVersionId,
+    onshapeMicroversionId,
+    apiUrl,
+    webUrl: parseWebUrl(webUrl),
+    onshapeCache: onshapeCache ? path.resolve(process.cwd(), onshapeCache) : undefined,
+    cache: cache ? path.resolve(process.cwd(), cache) : undefined,
+    watch: watchRoot,
+    gitRefs,
+    gitRange,
+    generatedAt,
+    omitTimestamp
   };
 }
 
@@ -225,180 +591,330 @@ async function loadOnshapeElementMap(filePath: string): Promise<OnshapeElementMa
     typeof parsed.documentId === "string" && parsed.documentId.trim().length > 0
       ? parsed.documentId.trim()
       : undefined;
-  const workspaceId =
-    typeof parsed.workspaceId === "string" && parsed.workspaceId.trim().length > 0
-      ? parsed.workspaceId.trim()
-      : undefined;
+  const readId = (field: string): string | undefined => {
+    const value = parsed[field];
+    return typeof value === "string" && value.trim().length > 0 ? value.trim() : undefined;
+  };
 
   return {
     documentId,
-    workspaceId,
+    workspaceId: readId("workspaceId"),
+    versionId: readId("versionId"),
+    microversionId: readId("microversionId"),
     elementsByName: (elementsByName as Record<string, string> | undefined) ?? {}
   };
 }
 
 function buildOnshapeSourceUrl(
   elementId: string,
-  documentId: string,
-  workspaceId: string
+  documentRef: OnshapeDocumentRef,
+  origin: string
 ): string {
-  const encodedDoc = encodeURIComponent(documentId);
-  const encodedWorkspace = encodeURIComponent(workspaceId);
-  const encodedElement = encodeURIComponent(elementId);
-  return `https://cad.onshape.com/documents/${encodedDoc}/w/${encodedWorkspace}/e/${encodedElement}`;
+  const documentPath = toOnshapeDocumentPath(documentRef);
+  return `${origin}/documents/${documentPath}/e/${encodeURIComponent(elementId)}`;
 }
 
-function stripComments(source: string): string {
-  let out = "";
-  let i = 0;
-  let inString = false;
-  let inLineComment = false;
-  let inBlockComment = false;
-  let escaped = false;
+/**
+ * Explicit CLI ids win over the map; within either, a version beats a microversion beats the
+ * workspace, so a pinned map produces permalinks by default.
+ */
+function resolveOnshapeDocumentRef(
+  options: CliOptions,
+  map: OnshapeElementMap
+): OnshapeDocumentRef {
+  const documentId =
+    options.onshapeDocumentId ?? map.documentId ?? DEFAULT_ONSHAPE_STD_DOCUMENT_ID;
 
-  while (i < source.length) {
-    const ch = source[i];
-    const next = source[i + 1];
+  if (options.onshapeVersionId) {
+    return { documentId, wvm: "v", wvmId: options.onshapeVersionId };
+  }
+  if (options.onshapeMicroversionId) {
+    return { documentId, wvm: "m", wvmId: options.onshapeMicroversionId };
+  }
+  if (options.onshapeWorkspaceId) {
+    return { documentId, wvm: "w", wvmId: options.onshapeWorkspaceId };
+  }
+  if (map.versionId) {
+    return { documentId, wvm: "v", wvmId: map.versionId };
+  }
+  if (map.microversionId) {
+    return { documentId, wvm: "m", wvmId: map.microversionId };
+  }
+  return { documentId, wvm: "w", wvmId: map.workspaceId ?? DEFAULT_ONSHAPE_STD_WORKSPACE_ID };
+}
 
-    if (inLineComment) {
-      if (ch === "\n") {
-        inLineComment = false;
-        out += "\n";
-      }
-      i += 1;
-      continue;
-    }
+function collectModuleImports(module: ParsedModule): {
+  imports: string[];
+  reexports: string[];
+  statements: ImportStatement[];
+} {
+  const imports: string[] = [];
+  const reexports: string[] = [];
+  const statements: ImportStatement[] = [];
+  const importSet = new Set<string>();
+  const reexportSet = new Set<string>();
 
-    if (inBlockComment) {
-      if (ch === "*" && next === "/") {
-        inBlockComment = false;
-        i += 2;
-        continue;
-      }
-      if (ch === "\n") {
-        out += "\n";
-      }
-      i += 1;
+  for (const declaration of module.imports) {
+    const target = normalizePath(declaration.path.trim());
+    if (!target) {
       continue;
     }
 
-    if (inString) {
-      out += ch;
-      if (escaped) {
-        escaped = false;
-      } else if (ch === "\\") {
-        escaped = true;
-      } else if (ch === '"') {
-        inString = false;
+    statements.push({
+      kind: declaration.isExport ? "reexport" : "import",
+      target,
+      rawPath: declaration.path,
+      version: declaration.version,
+      line: declaration.range.start.line
+    });
+
+    if (declaration.isExport) {
+      if (!reexportSet.has(target)) {
+        reexportSet.add(target);
+        reexports.push(target);
       }
-      i += 1;
-      continue;
+    } else if (!importSet.has(target)) {
+      importSet.add(target);
+      imports.push(target);
     }
+  }
 
-    if (ch === '"') {
-      inString = true;
-      out += ch;
-      i += 1;
-      continue;
-    }
+  return { imports, reexports, statements };
+}
 
-    if (ch === "/" && next === "/") {
-      inLineComment = true;
-      i += 2;
+/** Functions, predicates and consts bound to a function literal; nothing else has a body. */
+function measureFunction(
+  module: ParsedModule,
+  declaration: Declaration
+): FunctionMetrics | undefined {
+  const isFunction =
+    declaration.kind === "function" ||
+    declaration.kind === "predicate" ||
+    (declaration.kind === "const" && declaration.parameters !== undefined);
+  if (!isFunction || !declaration.body) {
+    return undefined;
+  }
+
+  return {
+    ...measureBodyComplexity(module.tokens, declaration.body),
+    parameterCount: declaration.parameters?.length ?? 0
+  };
+}
+
+function summarizeComplexity(callables: CallableRecord[]): ModuleComplexity | undefined {
+  const measured = callables.flatMap((callable) => (callable.metrics ? [callable.metrics] : []));
+  if (measured.length === 0) {
+    return undefined;
+  }
+
+  const summarize = (key: keyof FunctionMetrics) => {
+    const values = measured.map((metrics) => metrics[key]);
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    return { max: Math.max(...values), mean: Math.round(mean * 10) / 10 };
+  };
+  return {
+    cyclomaticComplexity: summarize("cyclomaticComplexity"),
+    maxNesting: summarize("maxNesting"),
+    statementCount: summarize("statementCount"),
+    parameterCount: summarize("parameterCount")
+  };
+}
+
+/** One record per exported declaration, so each overload keeps its own signature and docs. */
+function collectExportedSymbols(module: ParsedModule): SymbolRecord[] {
+  const out: SymbolRecord[] = [];
+
+  for (const declaration of module.declarations) {
+    if (!declaration.exported || declaration.kind === "operator") {
       continue;
     }
 
-    if (ch === "/" && next === "*") {
-      inBlockComment = true;
-      i += 2;
+    out.push({
+      name: declaration.name,
+      kind: declaration.kind,
+      startLine: declaration.range.start.line,
+      endLine: declaration.range.end.line,
+      parameters: declaration.parameters?.map((parameter) => ({
+        name: parameter.name,
+        type: parameter.type
+      })),
+      returnType: declaration.returnType,
+      valueType: declaration.valueType,
+      typecheck: declaration.typecheck,
+      members: declaration.members?.map((member) => {
+        const annotations: Record<string, AnnotationValue> = {};
+        for (const annotation of member.annotations) {
+          Object.assign(annotations, annotation.entries);
+        }
+        return { name: member.name, line: member.range.start.line, annotations };
+      }),
+      doc: declaration.docComment ? parseDocComment(declaration.docComment.text) : undefined,
+      metrics: measureFunction(module, declaration)
+    });
+  }
+
+  return out;
+}
+
+/**
+ * Lists, for every exported function and predicate overload, the identifiers that appear in its
+ * parameter and return types so they can be matched against exported types and enums.
+ */
+function collectSignatureTypeNames(
+  module: ParsedModule
+): Array<{ symbol: string; names: string[] }> {
+  const out: Array<{ symbol: string; names: string[] }> = [];
+
+  for (const declaration of module.declarations) {
+    if (
+      !declaration.exported ||
+      (declaration.kind !== "function" && declaration.kind !== "predicate")
+    ) {
       continue;
     }
 
-    out += ch;
-    i += 1;
+    const typeTexts = [
+      ...(declaration.parameters ?? []).map((parameter) => parameter.type ?? ""),
+      declaration.returnType ?? ""
+    ];
+    const names = new Set(
+      typeTexts.flatMap((text) => text.match(/[A-Za-z_][A-Za-z0-9_]*/g) ?? [])
+    );
+    if (names.size > 0) {
+      out.push({ symbol: declaration.name, names: [...names] });
+    }
   }
 
   return out;
 }
 
-function parseImports(source: string): { imports: string[]; reexports: string[] } {
-  const imports: string[] = [];
-  const reexports: string[] = [];
-  const importSet = new Set<string>();
-  const reexportSet = new Set<string>();
-  const pattern = /\b(export\s+)?import\s*\(\s*path\s*:\s*"([^"]+)"\s*,\s*version\s*:\s*"[^"]*"\s*\)\s*;/gms;
+function collectScopeImports(module: ParsedModule): {
+  scopeImports: string[];
+  namespaceImports: Array<{ namespace: string; path: string }>;
+} {
+  const scopeImports: string[] = [];
+  const namespaceImports: Array<{ namespace: string; path: string }> = [];
 
-  let match = pattern.exec(source);
-  while (match) {
-    const target = normalizePath(match[2].trim());
-
-    if (target) {
-      if (match[1]) {
-        if (!reexportSet.has(target)) {
-          reexportSet.add(target);
-          reexports.push(target);
-        }
-      } else if (!importSet.has(target)) {
-        importSet.add(target);
-        imports.push(target);
-      }
+  for (const declaration of module.imports) {
+    const target = normalizePath(declaration.path.trim());
+    if (!target) {
+      continue;
     }
 
-    match = pattern.exec(source);
+    if (declaration.namespace) {
+      namespaceImports.push({ namespace: declaration.namespace, path: target });
+    } else if (!scopeImports.includes(target)) {
+      scopeImports.push(target);
+    }
   }
 
-  return { imports, reexports };
+  return { scopeImports, namespaceImports };
 }
 
-function parseExportedSymbols(source: string): string[] {
-  const out: string[] = [];
-  const seen = new Set<string>();
-  const pattern = /\bexport\s+(function|type|predicate|enum|const)\s+([A-Za-z_][A-Za-z0-9_]*)/g;
+function collectCallables(module: ParsedModule): CallableRecord[] {
+  const out: CallableRecord[] = [];
+
+  for (const declaration of module.declarations) {
+    if (
+      declaration.kind !== "function" &&
+      declaration.kind !== "predicate" &&
+      declaration.kind !== "const"
+    ) {
+      continue;
+    }
 
-  let match = pattern.exec(source);
-  while (match) {
-    const symbol = match[2];
-    if (!seen.has(symbol)) {
-      seen.add(symbol);
-      out.push(symbol);
+    const localNames = (declaration.parameters ?? []).map((parameter) => parameter.name);
+    const spans = declaration.initializer
+      ? [declaration.initializer]
+      : [declaration.precondition, declaration.body];
+    const calls = spans.flatMap((span) =>
+      span
+        ? findCallSites(module.tokens, span, localNames).map((site) => ({
+            name: site.name,
+            namespace: site.namespace,
+            line: site.position.line
+          }))
+        : []
+    );
+
+    if (declaration.kind === "const" && !declaration.parameters && calls.length === 0) {
+      continue;
     }
-    match = pattern.exec(source);
+
+    const metrics = measureFunction(module, declaration);
+
+    out.push({
+      name: declaration.name,
+      kind: declaration.kind,
+      exported: declaration.exported,
+      startLine: declaration.range.start.line,
+      endLine: declaration.range.end.line,
+      metrics,
+      fingerprint:
+        metrics && declaration.body ? fingerprintBody(module.tokens, declaration.body) : undefined,
+      calls
+    });
   }
 
   return out;
 }
 
-function countNonCommentLoc(sourceWithoutComments: string): number {
-  return sourceWithoutComments
-    .split(/\r?\n/)
-    .map((line) => line.trim())
-    .filter((line) => line.length > 0).length;
-}
+/**
+ * Recognizes `export const name = defineFeature(function(...) precondition { ... } ...)` and
+ * returns each feature with its UI name and the `definition` parameters its precondition declares.
+ */
+function collectFeatures(module: ParsedModule, moduleId: string): FeatureRecord[] {
+  const out: FeatureRecord[] = [];
 
-function countFunctionDeclarations(sourceWithoutComments: string): number {
-  const pattern = /\b(?:export\s+)?function\s+[A-Za-z_][A-Za-z0-9_]*\b/g;
-  let count = 0;
-  let match = pattern.exec(sourceWithoutComments);
+  for (const declaration of module.declarations) {
+    if (declaration.kind !== "const" || declaration.wrapper !== "defineFeature") {
+      continue;
+    }
+
+    const annotations: Record<string, AnnotationValue> = {};
+    for (const annotation of declaration.annotations) {
+      Object.assign(annotations, annotation.entries);
+    }
 
-  while (match) {
-    count += 1;
-    match = pattern.exec(sourceWithoutComments);
+    const featureTypeName = annotations["Feature Type Name"];
+    out.push({
+      id: toSymbolId(moduleId, declaration.name),
+      name: declaration.name,
+      moduleId,
+      featureTypeName: typeof featureTypeName === "string" ? featureTypeName : undefined,
+      annotations,
+      parameters: (declaration.definitionParameters ?? []).map((parameter) => {
+        const label = parameter.annotations.Name;
+        return {
+          name: parameter.name,
+          label: typeof label === "string" ? label : undefined,
+          type: parameter.type,
+          predicate: parameter.predicate,
+          bounds: parameter.bounds,
+          conditional: parameter.conditional,
+          line: parameter.range.start.line,
+          annotations: parameter.annotations
+        };
+      }),
+      startLine: declaration.range.start.line,
+      endLine: declaration.range.end.line
+    });
   }
 
-  return count;
+  return out;
 }
 
-function extractIdentifierTokens(source: string): Set<string> {
-  const noStrings = source.replace(/"([^"\\]|\\.)*"/g, " ");
-  const tokens = new Set<string>();
-  const pattern = /\b[A-Za-z_][A-Za-z0-9_]*\b/g;
+function countFunctionDeclarations(module: ParsedModule): number {
+  return module.declarations.filter((declaration) => declaration.kind === "function").length;
+}
 
-  let match = pattern.exec(noStrings);
-  while (match) {
-    tokens.add(match[0]);
-    match = pattern.exec(noStrings);
+function collectIdentifierTokens(module: ParsedModule): Set<string> {
+  const tokens = new Set<string>();
+  for (const token of module.tokens) {
+    if (token.kind === "identifier") {
+      tokens.add(token.value);
+    }
   }
-
   return tokens;
 }
 
@@ -407,7 +923,7 @@ async function collectFsFiles(root: string): Promise<string[]> {
 
   async function walk(currentDir: string): Promise<void> {
     const entries = await readdir(currentDir, { withFileTypes: true });
-    entries.sort((a, b) => a.name.localeCompare(b.name));
+    entries.sort((a, b) => compareStrings(a.name, b.name));
 
     for (const entry of entries) {
       const fullPath = path.join(currentDir, entry.name);
@@ -423,7 +939,48 @@ async function collectFsFiles(root: string): Promise<string[]> {
   }
 
   await walk(root);
-  files.sort((a, b) => a.localeCompare(b));
+  files.sort(compareStrings);
+  return files;
+}
+
+/**
+ * Reads a library's `.fs` sources: from the working tree, from the git objects of the repository
+ * containing the root when a commit is given, or through the Onshape API for `onshape:` roots.
+ */
+async function readLibraryFiles(
+  library: LibraryRoot,
+  gitCommit?: GitCommit,
+  onshapeLibraries?: OnshapeLibraryContext
+): Promise<LibraryFile[]> {
+  const root = library.root;
+  if (library.onshape) {
+    if (!onshapeLibraries) {
+      throw new Error(`No Onshape connection to read ${root}`);
+    }
+    const files = await readOnshapeFsFiles(
+      onshapeLibraries.connection,
+      library.onshape,
+      onshapeLibraries.cacheDir
+    );
+    const cachedCount = files.filter((file) => file.fromCache).length;
+    console.log(
+      `Onshape ${root}: ${files.length} Feature Studios ` +
+        `(${files.length - cachedCount} downloaded, ${cachedCount} cached)`
+    );
+    return files.map(({ filePath, raw, elementId }) => ({ filePath, raw, elementId }));
+  }
+
+  if (gitCommit) {
+    return readGitFsFiles(root, gitCommit.commit);
+  }
+
+  const files: LibraryFile[] = [];
+  for (const absoluteFilePath of await collectFsFiles(root)) {
+    files.push({
+      filePath: toPosixRelative(root, absoluteFilePath),
+      raw: await readFile(absoluteFilePath, "utf8")
+    });
+  }
   return files;
 }
 
@@ -444,26 +1001,83 @@ function buildSuffixIndex(records: ParsedFile[]): Map<string, string[]> {
   return index;
 }
 
-function resolveModuleTarget(modulePath: string, suffixIndex: Map<string, string[]>): string | undefined {
+/**
+ * Resolves an import path to a module id by its longest unambiguous suffix. When a suffix matches
+ * modules in several libraries, the one in `preferred` (the importer's own library) wins.
+ */
+function resolveModuleTarget(
+  modulePath: string,
+  suffixIndex: Map<string, string[]>,
+  preferred?: Set<string>
+): string | undefined {
   const normalized = normalizePath(modulePath);
+  const pick = (matches: string[] | undefined): string | undefined => {
+    if (!matches) {
+      return undefined;
+    }
+    if (matches.length === 1) {
+      return matches[0];
+    }
+    const local = preferred ? matches.filter((id) => preferred.has(id)) : [];
+    return local.length === 1 ? local[0] : undefined;
+  };
 
-  const direct = suffixIndex.get(normalized);
-  if (direct && direct.length === 1) {
-    return direct[0];
+  const direct = pick(suffixIndex.get(normalized));
+  if (direct) {
+    return direct;
   }
 
   const segments = normalized.split("/").filter(Boolean);
   for (let i = 1; i < segments.length; i += 1) {
-    const suffix = segments.slice(i).join("/");
-    const matches = suffixIndex.get(suffix);
-    if (matches && matches.length === 1) {
-      return matches[0];
+    const match = pick(suffixIndex.get(segments.slice(i).join("/")));
+    if (match) {
+      return match;
     }
   }
 
   return undefined;
 }
 
+function toStudioKey(library: string, elementId: string): string {
+  return `${library}\u0000${elementId}`;
+}
+
+/**
+ * Resolves an Onshape import that names a Feature Studio by id: `<element>` within the importer's
+ * own document, or `<document>/<version>/<element>` in an `onshape:` root of that document
+ * (preferring the root at that version). Studios of other documents never match, since element
+ * ids survive document copies.
+ */
+function resolveStudioImport(
+  modulePath: string,
+  importerLibrary: string,
+  libraries: LibraryRoot[],
+  studioModules: Map<string, string>
+): string | undefined {
+  const segments = normalizePath(modulePath).split("/").filter(Boolean);
+  if (segments.length === 1) {
+    return studioModules.get(toStudioKey(importerLibrary, segments[0]));
+  }
+  if (segments.length !== 3) {
+    return undefined;
+  }
+
+  const [documentId, versionId, elementId] = segments;
+  const candidates = libraries
+    .filter((library) => library.onshape?.documentId === documentId)
+    .sort(
+      (a, b) =>
+        Number(b.onshape?.wvmId === versionId) - Number(a.onshape?.wvmId === versionId)
+    );
+  for (const library of candidates) {
+    const moduleId = studioModules.get(toStudioKey(library.label, elementId));
+    if (moduleId) {
+      return moduleId;
+    }
+  }
+  return undefined;
+}
+
 function chooseModulePath(aliases: Map<string, number> | undefined, fallback: string): string {
   if (!aliases || aliases.size === 0) {
     return fallback;
@@ -477,85 +1091,483 @@ function chooseModulePath(aliases: Map<string, number> | undefined, fallback: st
       if (b[0].length !== a[0].length) {
         return b[0].length - a[0].length;
       }
-      return a[0].localeCompare(b[0]);
+      return compareStrings(a[0], b[0]);
     })[0][0];
 }
 
-async function buildGraph(
-  root: string,
-  onshapeSourceConfig?: {
-    documentId: string;
-    workspaceId: string;
-    elementsByName: Record<string, string>;
+function sortRecordKeys<T>(record: Record<string, T>): Record<string, T> {
+  return Object.fromEntries(Object.entries(record).sort((a, b) => compareStrings(a[0], b[0])));
+}
+
+function toSymbolId(moduleId: string, name: string): string {
+  return `${moduleId}#${name}`;
+}
+
+/**
+ * Builds FeatureScript's name scoping for every module: a module sees the exports of each module
+ * it imports plus everything those re-export, transitively. Each resolved name records the
+ * defining module and the chain of re-exporting modules it passed through (empty when imported
+ * directly).
+ */
+function createScopeResolver(
+  parsedFiles: ParsedFile[],
+  resolvePath: (file: ParsedFile, modulePath: string) => string
+): (file: ParsedFile) => ModuleScope {
+  const parsedById = new Map(parsedFiles.map((file) => [file.id, file]));
+  const exportsThroughCache = new Map<string, Map<string, ResolvedExport>>();
+
+  /**
+   * `stack` holds the modules still being expanded. A result that reached one of them higher up
+   * the stack lacks that module's names, so only results whose cycles closed here are cached.
+   */
+  function exportsThrough(
+    moduleId: string,
+    stack: string[]
+  ): { exports: Map<string, ResolvedExport>; reachedDepth: number } {
+    const cached = exportsThroughCache.get(moduleId);
+    if (cached) {
+      return { exports: cached, reachedDepth: Infinity };
+    }
+
+    const out = new Map<string, ResolvedExport>();
+    const file = parsedById.get(moduleId);
+    const depth = stack.indexOf(moduleId);
+    if (!file || depth >= 0) {
+      return { exports: out, reachedDepth: depth >= 0 ? depth : Infinity };
+    }
+
+    stack.push(moduleId);
+    let reachedDepth = Infinity;
+    for (const name of file.exportedSymbols) {
+      out.set(name, { moduleId, via: [] });
+    }
+    for (const reexport of file.reexports) {
+      const reexported = exportsThrough(resolvePath(file, reexport), stack);
+      reachedDepth = Math.min(reachedDepth, reexported.reachedDepth);
+      for (const [name, resolved] of reexported.exports) {
+        if (!out.has(name)) {
+          out.set(name, { moduleId: resolved.moduleId, via: [moduleId, ...resolved.via] });
+        }
+      }
+    }
+    stack.pop();
+
+    if (reachedDepth >= stack.length) {
+      exportsThroughCache.set(moduleId, out);
+    }
+    return { exports: out, reachedDepth };
+  }
+
+  return (file) => {
+    const scope = new Map<string, ResolvedExport>();
+    for (const modulePath of file.scopeImports) {
+      for (const [name, resolved] of exportsThrough(resolvePath(file, modulePath), []).exports) {
+        const existing = scope.get(name);
+        if (!existing || resolved.via.length < existing.via.length) {
+          scope.set(name, resolved);
+        }
+      }
+    }
+
+    const namespaces = new Map<string, Map<string, ResolvedExport>>();
+    for (const entry of file.namespaceImports) {
+      const visible = namespaces.get(entry.namespace) ?? new Map<string, ResolvedExport>();
+      for (const [name, resolved] of exportsThrough(resolvePath(file, entry.path), []).exports) {
+        if (!visible.has(name)) {
+          visible.set(name, resolved);
+        }
+      }
+      namespaces.set(entry.namespace, visible);
+    }
+
+    return { scope, namespaces };
+  };
+}
+
+/** Tags modules inside an import cycle with their SCC and flags the edges closing each cycle. */
+function markImportCycles(
+  nodes: Array<{ data: GraphNodeData }>,
+  edges: Array<{ data: GraphEdgeData }>
+): void {
+  const cycles = findCycles(
+    nodes.map((node) => node.data.id),
+    edges.map((edge) => edge.data)
+  );
+  const sccIdByNode = new Map<string, number>();
+  cycles.components.forEach((component, sccId) => {
+    for (const id of component) {
+      sccIdByNode.set(id, sccId);
+    }
+  });
+
+  for (const node of nodes) {
+    const sccId = sccIdByNode.get(node.data.id);
+    if (sccId !== undefined) {
+      node.data.sccId = sccId;
+    }
+  }
+  for (const edge of edges) {
+    if (cycles.backEdgeIds.has(edge.data.id)) {
+      edge.data.isBackEdge = true;
+    }
+  }
+}
+
+/**
+ * Resolves every call site to the symbol it names: a module's own top-level declarations first,
+ * then its import scope, and `Namespace::name` through the matching namespaced import.
+ */
+function buildCallGraph(
+  parsedFiles: ParsedFile[],
+  scopeOf: (file: ParsedFile) => ModuleScope
+): GraphOutput["callGraph"] {
+  const nodeById = new Map<string, CallGraphNodeData>();
+  const edgesByKey = new Map<string, GraphEdgeData>();
+
+  for (const file of parsedFiles) {
+    for (const callable of file.callables) {
+      const id = toSymbolId(file.id, callable.name);
+      const overload = {
+        startLine: callable.startLine,
+        endLine: callable.endLine,
+        metrics: callable.metrics
+      };
+      const existing = nodeById.get(id);
+      if (existing) {
+        if (!existing.overloads) {
+          const { startLine, endLine, metrics } = existing;
+          existing.overloads = [{ startLine, endLine, metrics }];
+        }
+        existing.overloads.push(overload);
+        existing.exported = existing.exported || callable.exported;
+        existing.metrics = maxFunctionMetrics(existing.metrics, callable.metrics);
+        continue;
+      }
+
+      nodeById.set(id, {
+        id,
+        label: callable.name,
+        moduleId: file.id,
+        name: callable.name,
+        kind: callable.kind,
+        exported: callable.exported,
+        ...overload
+      });
+    }
+  }
+  const callableIds = new Set(nodeById.keys());
+
+  for (const file of parsedFiles) {
+    const declared = new Set(file.declaredNames);
+    const { scope, namespaces } = scopeOf(file);
+
+    for (const callable of file.callables) {
+      const source = toSymbolId(file.id, callable.name);
+
+      for (const call of callable.calls) {
+        let resolved: ResolvedExport | undefined;
+        if (call.namespace) {
+          resolved = namespaces.get(call.namespace)?.get(call.name);
+        } else if (declared.has(call.name)) {
+          resolved = { moduleId: file.id, via: [] };
+        } else {
+          resolved = scope.get(call.name);
+        }
+
+        const target = resolved ? toSymbolId(resolved.moduleId, call.name) : undefined;
+
+        if (!target || !callableIds.has(target)) {
+          continue;
+        }
+
+        const key = `${source}\u0000${target}`;
+        const existing = edgesByKey.get(key);
+        if (existing) {
+          existing.count = (existing.count ?? 0) + 1;
+          existing.lines?.push(call.line);
+          continue;
+        }
+
+        edgesByKey.set(key, {
+          id: toEdgeId("call", source, target),
+          source,
+          target,
+          kind: "call",
+          count: 1,
+          lines: [call.line]
+        });
+      }
+    }
+  }
+
+  const nodes = [...nodeById.values()]
+    .sort((a, b) => compareStrings(a.id, b.id))
+    .map((data) => ({ data }));
+  const edges = [...edgesByKey.values()]
+    .sort((a, b) => compareStrings(a.id, b.id))
+    .map((data) => ({ data }));
+
+  return { nodes, edges };
+}
+
+function maxFunctionMetrics(
+  a: FunctionMetrics | undefined,
+  b: FunctionMetrics | undefined
+): FunctionMetrics | undefined {
+  if (!a || !b) {
+    return a ?? b;
+  }
+  return {
+    cyclomaticComplexity: Math.max(a.cyclomaticComplexity, b.cyclomaticComplexity),
+    maxNesting: Math.max(a.maxNesting, b.maxNesting),
+    statementCount: Math.max(a.statementCount, b.statementCount),
+    parameterCount: Math.max(a.parameterCount, b.parameterCount)
+  };
+}
+
+/**
+ * Clusters functions with near-identical bodies and keeps the clusters spanning several modules,
+ * which is how copies of a helper (often of an exported stdlib one) show up.
+ */
+function buildDuplicateClusters(parsedFiles: ParsedFile[]): DuplicateCluster[] {
+  const items: Array<{ item: DuplicateFunction; fingerprint: FunctionFingerprint }> = [];
+
+  for (const file of parsedFiles) {
+    // Every overload is compared on its own; members of one name share the call graph node id.
+    for (const callable of file.callables) {
+      const symbolId = toSymbolId(file.id, callable.name);
+      if (callable.fingerprint) {
+        items.push({
+          item: {
+            symbolId,
+            moduleId: file.id,
+            name: callable.name,
+            exported: callable.exported,
+            startLine: callable.startLine,
+            endLine: callable.endLine
+          },
+          fingerprint: callable.fingerprint
+        });
+      }
+    }
+  }
+
+  return findDuplicateGroups(items)
+    .filter((group) => new Set(group.members.map((member) => member.moduleId)).size > 1)
+    .map((group) => ({
+      ...group,
+      members: group.members.sort(
+        (a, b) => compareStrings(a.symbolId, b.symbolId) || a.startLine - b.startLine
+      )
+    }))
+    .sort(
+      (a, b) =>
+        b.members.length - a.members.length ||
+        compareStrings(a.members[0].symbolId, b.members[0].symbolId)
+    )
+    .map((group, id) => ({ id, similarity: group.similarity, members: group.members }));
+}
+
+function parseModuleFile(
+  id: string,
+  filePath: string,
+  library: string,
+  raw: string,
+  hash: string
+): ParsedFile {
+  const module = parseFeatureScript(raw);
+  const parsedImports = collectModuleImports(module);
+  const symbols = collectExportedSymbols(module);
+  const scope = collectScopeImports(module);
+  const callables = collectCallables(module);
+
+  return {
+    id,
+    filePath,
+    library,
+    hash,
+    diagnostics: module.diagnostics.map(
+      (diagnostic) =>
+        `${id}:${diagnostic.position.line}:${diagnostic.position.column}: ${diagnostic.message}`
+    ),
+    loc: countCodeLines(module.tokens),
+    functionCount: countFunctionDeclarations(module),
+    complexity: summarizeComplexity(callables),
+    isGenerated: filePath.toLowerCase().endsWith(".gen.fs"),
+    imports: parsedImports.imports,
+    reexports: parsedImports.reexports,
+    importStatements: parsedImports.statements,
+    exportedSymbols: [...new Set(symbols.map((symbol) => symbol.name))],
+    symbols,
+    moduleDoc: module.moduleDoc ? parseDocComment(module.moduleDoc.text) : undefined,
+    tokens: collectIdentifierTokens(module),
+    scopeImports: scope.scopeImports,
+    namespaceImports: scope.namespaceImports,
+    declaredNames: module.declarations.map((declaration) => declaration.name),
+    callables,
+    features: collectFeatures(module, id),
+    signatureTypeNames: collectSignatureTypeNames(module)
+  };
+}
+
+/**
+ * Reads the per-file parse cache. A missing, unreadable or outdated cache is treated as empty so
+ * the run simply reparses everything.
+ */
+async function loadIndexCache(filePath: string): Promise<IndexCache> {
+  const empty: IndexCache = { version: INDEX_CACHE_VERSION, files: {} };
+  const raw = await readFile(filePath, "utf8").catch(() => undefined);
+  if (raw === undefined) {
+    return empty;
   }
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!isRecord(parsed) || parsed.version !== INDEX_CACHE_VERSION || !isRecord(parsed.files)) {
+      return empty;
+    }
+    return parsed as unknown as IndexCache;
+  } catch {
+    console.warn(`Ignoring unreadable index cache: ${filePath}`);
+    return empty;
+  }
+}
+
+async function saveIndexCache(filePath: string, parsedFiles: ParsedFile[]): Promise<void> {
+  const files: Record<string, CachedFile> = {};
+  for (const file of parsedFiles) {
+    files[file.id] = { ...file, tokens: [...file.tokens] };
+  }
+
+  const cache: IndexCache = { version: INDEX_CACHE_VERSION, files };
+  await ensureDirectory(filePath);
+  await writeFile(filePath, JSON.stringify(cache), "utf8");
+}
+
+async function buildGraph(
+  libraries: LibraryRoot[],
+  onshapeSourceConfig?: OnshapeSourceConfig,
+  onshapeLibraries?: OnshapeLibraryContext,
+  cachePath?: string,
+  gitCommit?: GitCommit
 ): Promise<GraphOutput> {
-  const fsFiles = await collectFsFiles(root);
   const parsedFiles: ParsedFile[] = [];
+  const elementIdByModule = new Map<string, string>();
+  const cache = cachePath ? await loadIndexCache(cachePath) : undefined;
+  const prefixIds = libraries.length > 1;
+  let reusedCount = 0;
+  let diagnosticCount = 0;
+
+  for (const [index, library] of libraries.entries()) {
+    const libraryGitCommit = index === 0 ? gitCommit : undefined;
+    const files = await readLibraryFiles(library, libraryGitCommit, onshapeLibraries);
+    for (const { filePath, raw, elementId } of files) {
+      const id = prefixIds ? `${library.label}/${filePath}` : filePath;
+      if (elementId) {
+        elementIdByModule.set(id, elementId);
+      }
+      const hash = createHash("sha256").update(raw).digest("hex");
+      const cached = cache?.files[id];
+
+      let file: ParsedFile;
+      if (cached && cached.hash === hash && cached.library === library.label) {
+        file = { ...cached, tokens: new Set(cached.tokens) };
+        reusedCount += 1;
+      } else {
+        file = parseModuleFile(id, filePath, library.label, raw, hash);
+      }
 
-  for (const absoluteFilePath of fsFiles) {
-    const raw = await readFile(absoluteFilePath, "utf8");
-    const stripped = stripComments(raw);
-    const filePath = toPosixRelative(root, absoluteFilePath);
-    const parsedImports = parseImports(stripped);
-
-    parsedFiles.push({
-      id: filePath,
-      filePath,
-      loc: countNonCommentLoc(stripped),
-      functionCount: countFunctionDeclarations(stripped),
-      isGenerated: filePath.toLowerCase().endsWith(".gen.fs"),
-      imports: parsedImports.imports,
-      reexports: parsedImports.reexports,
-      exportedSymbols: parseExportedSymbols(stripped),
-      tokens: extractIdentifierTokens(stripped)
-    });
+      for (const diagnostic of file.diagnostics) {
+        diagnosticCount += 1;
+        if (diagnosticCount <= MAX_REPORTED_DIAGNOSTICS) {
+          console.warn(diagnostic);
+        }
+      }
+
+      parsedFiles.push(file);
+    }
+  }
+
+  if (diagnosticCount > MAX_REPORTED_DIAGNOSTICS) {
+    console.warn(
+      `... ${diagnosticCount - MAX_REPORTED_DIAGNOSTICS} more parse diagnostics not shown`
+    );
+  }
+
+  if (cachePath) {
+    await saveIndexCache(cachePath, parsedFiles);
+    console.log(
+      `Cache: ${reusedCount} reused, ${parsedFiles.length - reusedCount} parsed (${cachePath})`
+    );
   }
 
   const suffixIndex = buildSuffixIndex(parsedFiles);
-  const parsedById = new Map(parsedFiles.map((file) => [file.id, file]));
   const parsedFileIds = new Set(parsedFiles.map((file) => file.id));
-  const nodes: Array<{ data: NodeData }> = [];
-  const edges: Array<{ data: EdgeData }> = [];
+  const idsByLibrary = new Map<string, Set<string>>();
+  for (const file of parsedFiles) {
+    const ids = idsByLibrary.get(file.library) ?? new Set<string>();
+    ids.add(file.id);
+    idsByLibrary.set(file.library, ids);
+  }
+  const studioModules = new Map<string, string>();
+  for (const file of parsedFiles) {
+    const elementId = elementIdByModule.get(file.id);
+    if (elementId) {
+      studioModules.set(toStudioKey(file.library, elementId), file.id);
+    }
+  }
+  const resolvePath = (file: ParsedFile, modulePath: string): string =>
+    resolveStudioImport(modulePath, file.library, libraries, studioModules) ??
+    resolveModuleTarget(modulePath, suffixIndex, idsByLibrary.get(file.library)) ??
+    modulePath;
+  const nodes: Array<{ data: GraphNodeData }> = [];
+  const edges: Array<{ data: GraphEdgeData }> = [];
   const edgeKeys = new Set<string>();
-  const virtualNodes = new Map<string, { data: NodeData }>();
+  const virtualNodes = new Map<string, { data: GraphNodeData }>();
   const aliasCounts = new Map<string, Map<string, number>>();
+  // Element-id paths say nothing about a studio's name, so they never become its modulePath.
+  const recordAlias = (file: ParsedFile, modulePath: string, target: string): void => {
+    if (
+      target === modulePath ||
+      target === file.id ||
+      resolveStudioImport(modulePath, file.library, libraries, studioModules)
+    ) {
+      return;
+    }
+    const aliasMap = aliasCounts.get(target) ?? new Map<string, number>();
+    aliasMap.set(modulePath, (aliasMap.get(modulePath) ?? 0) + 1);
+    aliasCounts.set(target, aliasMap);
+  };
   const targetsByFile = new Map<string, { importTargets: string[]; reexportTargets: string[] }>();
-  const directConsumersByTarget = new Map<string, Set<string>>();
-  let edgeNumber = 0;
 
   for (const file of parsedFiles) {
     const importTargets: string[] = [];
     const reexportTargets: string[] = [];
 
     for (const targetModulePath of file.imports) {
-      const resolvedTarget = resolveModuleTarget(targetModulePath, suffixIndex) ?? targetModulePath;
+      const resolvedTarget = resolvePath(file, targetModulePath);
       importTargets.push(resolvedTarget);
 
       const edgeKey = `import\u0000${file.id}\u0000${resolvedTarget}`;
       if (!edgeKeys.has(edgeKey)) {
+        const statement = file.importStatements.find(
+          (entry) => entry.kind === "import" && entry.target === targetModulePath
+        );
         edgeKeys.add(edgeKey);
-        edgeNumber += 1;
         edges.push({
           data: {
-            id: `e${edgeNumber}`,
+            id: toEdgeId("import", file.id, resolvedTarget),
             source: file.id,
             target: resolvedTarget,
-            kind: "import"
+            kind: "import",
+            rawPath: statement?.rawPath,
+            version: statement?.version,
+            line: statement?.line
           }
         });
       }
 
-      if (parsedFileIds.has(resolvedTarget)) {
-        const consumers = directConsumersByTarget.get(resolvedTarget) ?? new Set<string>();
-        consumers.add(file.id);
-        directConsumersByTarget.set(resolvedTarget, consumers);
-      }
-
-      if (resolvedTarget !== targetModulePath && resolvedTarget !== file.id) {
-        const aliasMap = aliasCounts.get(resolvedTarget) ?? new Map<string, number>();
-        aliasMap.set(targetModulePath, (aliasMap.get(targetModulePath) ?? 0) + 1);
-        aliasCounts.set(resolvedTarget, aliasMap);
-      }
+      recordAlias(file, targetModulePath, resolvedTarget);
 
       if (!parsedFileIds.has(resolvedTarget)) {
         virtualNodes.set(resolvedTarget, {
@@ -575,7 +1587,10 @@ async function buildGraph(
             reexportCount: 0,
             exports: [],
             exportCount: 0,
+            symbols: [],
             symbolUsers: {},
+            signatureUsers: {},
+            visibleTo: {},
             isVirtual: true
           }
         });
@@ -583,34 +1598,29 @@ async function buildGraph(
     }
 
     for (const targetModulePath of file.reexports) {
-      const resolvedTarget = resolveModuleTarget(targetModulePath, suffixIndex) ?? targetModulePath;
+      const resolvedTarget = resolvePath(file, targetModulePath);
       reexportTargets.push(resolvedTarget);
 
       const edgeKey = `reexport\u0000${file.id}\u0000${resolvedTarget}`;
       if (!edgeKeys.has(edgeKey)) {
+        const statement = file.importStatements.find(
+          (entry) => entry.kind === "reexport" && entry.target === targetModulePath
+        );
         edgeKeys.add(edgeKey);
-        edgeNumber += 1;
         edges.push({
           data: {
-            id: `e${edgeNumber}`,
+            id: toEdgeId("reexport", file.id, resolvedTarget),
             source: file.id,
             target: resolvedTarget,
-            kind: "reexport"
+            kind: "reexport",
+            rawPath: statement?.rawPath,
+            version: statement?.version,
+            line: statement?.line
           }
         });
       }
 
-      if (parsedFileIds.has(resolvedTarget)) {
-        const consumers = directConsumersByTarget.get(resolvedTarget) ?? new Set<string>();
-        consumers.add(file.id);
-        directConsumersByTarget.set(resolvedTarget, consumers);
-      }
-
-      if (resolvedTarget !== targetModulePath && resolvedTarget !== file.id) {
-        const aliasMap = aliasCounts.get(resolvedTarget) ?? new Map<string, number>();
-        aliasMap.set(targetModulePath, (aliasMap.get(targetModulePath) ?? 0) + 1);
-        aliasCounts.set(resolvedTarget, aliasMap);
-      }
+      recordAlias(file, targetModulePath, resolvedTarget);
 
       if (!parsedFileIds.has(resolvedTarget)) {
         virtualNodes.set(resolvedTarget, {
@@ -630,7 +1640,10 @@ async function buildGraph(
             reexportCount: 0,
             exports: [],
             exportCount: 0,
+            symbols: [],
             symbolUsers: {},
+            signatureUsers: {},
+            visibleTo: {},
             isVirtual: true
           }
         });
@@ -640,32 +1653,98 @@ async function buildGraph(
     targetsByFile.set(file.id, { importTargets, reexportTargets });
   }
 
+  const scopeOf = createScopeResolver(parsedFiles, resolvePath);
+  const usersBySymbol = new Map<string, Set<string>>();
+  const signatureUsersBySymbol = new Map<string, Set<string>>();
+  const typeSymbolIds = new Set(
+    parsedFiles.flatMap((file) =>
+      file.symbols
+        .filter((symbol) => symbol.kind === "type" || symbol.kind === "enum")
+        .map((symbol) => toSymbolId(file.id, symbol.name))
+    )
+  );
+  const visibleToByModule = new Map<string, Record<string, string[]>>();
+
+  for (const file of parsedFiles) {
+    const declared = new Set(file.declaredNames);
+    const { scope, namespaces } = scopeOf(file);
+    const visible = [...scope, ...[...namespaces.values()].flatMap((entries) => [...entries])];
+
+    for (const [name, resolved] of visible) {
+      if (resolved.moduleId === file.id) {
+        continue;
+      }
+
+      const visibleTo = visibleToByModule.get(resolved.moduleId) ?? {};
+      const existing = visibleTo[file.id];
+      if (!existing || resolved.via.length < existing.length) {
+        visibleTo[file.id] = resolved.via;
+      }
+      visibleToByModule.set(resolved.moduleId, visibleTo);
+
+      if (file.tokens.has(name) && !declared.has(name)) {
+        const symbolId = toSymbolId(resolved.moduleId, name);
+        const users = usersBySymbol.get(symbolId) ?? new Set<string>();
+        users.add(file.id);
+        usersBySymbol.set(symbolId, users);
+      }
+    }
+
+    for (const signature of file.signatureTypeNames) {
+      for (const name of signature.names) {
+        const moduleId = declared.has(name) ? file.id : scope.get(name)?.moduleId;
+        const typeId = moduleId ? toSymbolId(moduleId, name) : undefined;
+        if (!typeId || !typeSymbolIds.has(typeId)) {
+          continue;
+        }
+
+        const users = signatureUsersBySymbol.get(typeId) ?? new Set<string>();
+        users.add(toSymbolId(file.id, signature.symbol));
+        signatureUsersBySymbol.set(typeId, users);
+      }
+    }
+  }
+
   for (const file of parsedFiles) {
     const targets = targetsByFile.get(file.id) ?? { importTargets: [], reexportTargets: [] };
     const symbolUsers: Record<string, string[]> = {};
-    const directConsumers = directConsumersByTarget.get(file.id) ?? new Set<string>();
-    const moduleFileName = toModuleFileName(file.filePath);
+    const signatureUsers: Record<string, string[]> = {};
+    // The Onshape element map describes the standard library document, i.e. the first root.
+    const moduleFileName =
+      file.library === libraries[0].label ? toModuleFileName(file.filePath) : undefined;
     const sourceElementId =
       moduleFileName && onshapeSourceConfig
         ? onshapeSourceConfig.elementsByName[moduleFileName]
         : undefined;
-    const sourceUrl =
-      sourceElementId && onshapeSourceConfig
-        ? buildOnshapeSourceUrl(
-            sourceElementId,
-            onshapeSourceConfig.documentId,
-            onshapeSourceConfig.workspaceId
-          )
-        : undefined;
+    const library = libraries.find((entry) => entry.label === file.library);
+    const studioElementId = elementIdByModule.get(file.id);
+    let sourceUrl: string | undefined;
+    if (studioElementId && library?.onshape && onshapeLibraries) {
+      sourceUrl = buildOnshapeSourceUrl(
+        studioElementId,
+        library.onshape,
+        onshapeLibraries.webUrl
+      );
+    } else if (sourceElementId && onshapeSourceConfig) {
+      sourceUrl = buildOnshapeSourceUrl(
+        sourceElementId,
+        onshapeSourceConfig.documentRef,
+        onshapeSourceConfig.webUrl
+      );
+    }
 
     for (const symbol of file.exportedSymbols) {
-      const users = [...directConsumers]
-        .filter((consumerId) => parsedById.get(consumerId)?.tokens.has(symbol))
-        .sort((a, b) => a.localeCompare(b));
+      const users = [...(usersBySymbol.get(toSymbolId(file.id, symbol)) ?? [])];
+      users.sort(compareStrings);
 
       if (users.length > 0) {
         symbolUsers[symbol] = users;
       }
+
+      const signatures = [...(signatureUsersBySymbol.get(toSymbolId(file.id, symbol)) ?? [])];
+      if (signatures.length > 0) {
+        signatureUsers[symbol] = signatures.sort(compareStrings);
+      }
     }
 
     nodes.push({
@@ -674,9 +1753,12 @@ async function buildGraph(
         label: path.posix.basename(file.filePath),
         filePath: file.filePath,
         modulePath: chooseModulePath(aliasCounts.get(file.id), file.filePath),
+        library: file.library,
         sourceUrl,
+        moduleDoc: file.moduleDoc,
         loc: file.loc,
         functionCount: file.functionCount,
+        complexity: file.complexity,
         isGenerated: file.isGenerated,
         imports: file.imports,
         reexports: file.reexports,
@@ -686,7 +1768,10 @@ async function buildGraph(
         reexportCount: file.reexports.length,
         exports: file.exportedSymbols,
         exportCount: file.exportedSymbols.length,
-        symbolUsers
+        symbols: file.symbols,
+        symbolUsers,
+        signatureUsers,
+        visibleTo: sortRecordKeys(visibleToByModule.get(file.id) ?? {})
       }
     });
   }
@@ -697,16 +1782,31 @@ async function buildGraph(
     }
   }
 
-  nodes.sort((a, b) => a.data.id.localeCompare(b.data.id));
-  edges.sort((a, b) => a.data.id.localeCompare(b.data.id));
+  nodes.sort((a, b) => compareStrings(a.data.id, b.data.id));
+  edges.sort((a, b) => compareStrings(a.data.id, b.data.id));
+  markImportCycles(nodes, edges);
 
   return {
-    root,
+    schemaVersion: GRAPH_SCHEMA_VERSION,
+    root: libraries[0].root,
+    libraries: libraries.map((library, index) => ({
+      label: library.label,
+      root: library.root,
+      moduleCount: idsByLibrary.get(library.label)?.size ?? 0,
+      ...(index === 0 && gitCommit
+        ? { gitRef: gitCommit.ref, commit: gitCommit.commit, committedAt: gitCommit.committedAt }
+        : {})
+    })),
     generatedAt: new Date().toISOString(),
     elements: {
       nodes,
       edges
-    }
+    },
+    callGraph: buildCallGraph(parsedFiles, scopeOf),
+    features: parsedFiles
+      .flatMap((file) => file.features)
+      .sort((a, b) => compareStrings(a.id, b.id)),
+    duplicates: buildDuplicateClusters(parsedFiles)
   };
 }
 
@@ -717,18 +1817,17 @@ async function ensureDirectory(filePath: string): Promise<void> {
 async function main(): Promise<void> {
   const options = parseArgs(process.argv.slice(2));
 
-  const rootStat = await stat(options.root).catch(() => undefined);
-  if (!rootStat || !rootStat.isDirectory()) {
-    throw new Error(`Root path does not exist or is not a directory: ${options.root}`);
+  for (const library of options.roots) {
+    if (library.onshape) {
+      continue;
+    }
+    const rootStat = await stat(library.root).catch(() => undefined);
+    if (!rootStat || !rootStat.isDirectory()) {
+      throw new Error(`Root path does not exist or is not a directory: ${library.root}`);
+    }
   }
 
-  let onshapeSourceConfig:
-    | {
-        documentId: string;
-        workspaceId: string;
-        elementsByName: Record<string, string>;
-      }
-    | undefined;
+  let onshapeSourceConfig: OnshapeSourceConfig | undefined;
 
   if (options.onshapeMap) {
     const mapStat = await stat(options.onshapeMap).catch(() => undefined);
@@ -738,25 +1837,91 @@ async function main(): Promise<void> {
 
     const map = await loadOnshapeElementMap(options.onshapeMap);
     onshapeSourceConfig = {
-      documentId:
-        options.onshapeDocumentId ??
-        map.documentId ??
-        DEFAULT_ONSHAPE_STD_DOCUMENT_ID,
-      workspaceId:
-        options.onshapeWorkspaceId ??
-        map.workspaceId ??
-        DEFAULT_ONSHAPE_STD_WORKSPACE_ID,
-      elementsByName: map.elementsByName ?? {}
+      documentRef: resolveOnshapeDocumentRef(options, map),
+      elementsByName: map.elementsByName ?? {},
+      webUrl: options.webUrl
     };
   }
 
-  const graph = await buildGraph(options.root, onshapeSourceConfig);
-  await ensureDirectory(options.out);
-  await writeFile(options.out, `${JSON.stringify(graph, null, 2)}\n`, "utf8");
+  const onshapeLibraries = options.roots.some((library) => library.onshape)
+    ? createOnshapeLibraryContext(options)
+    : undefined;
 
-  console.log(`Indexed root: ${options.root}`);
+  const gitRoot = options.roots[0].root;
+  const gitCommits = options.gitRange
+    ? await listGitRange(gitRoot, options.gitRange)
+    : await Promise.all(options.gitRefs.map((ref) => resolveGitCommit(gitRoot, ref)));
+
+  if (gitCommits.length === 0) {
+    await writeGraph(options, onshapeSourceConfig, onshapeLibraries, options.out);
+  }
+  for (const gitCommit of gitCommits) {
+    const out =
+      gitCommits.length === 1 ? options.out : toRefOutputPath(options.out, gitCommit.ref);
+    console.log(`Ref: ${gitCommit.ref} (${gitCommit.commit.slice(0, 12)}) ${gitCommit.subject}`);
+    await writeGraph(options, onshapeSourceConfig, onshapeLibraries, out, gitCommit);
+  }
+
+  if (options.watch) {
+    watchForChanges(options, onshapeSourceConfig);
+  }
+}
+
+function createOnshapeLibraryContext(options: CliOptions): OnshapeLibraryContext {
+  return {
+    connection: {
+      baseUrl: options.apiUrl,
+      credentials: resolveOnshapeCredentials(),
+      maxRetries: DEFAULT_MAX_RETRIES,
+      onRetry: (message: string) => console.warn(`Retrying: ${message}`)
+    },
+    cacheDir: options.onshapeCache,
+    webUrl: options.webUrl
+  };
+}
+
+/** Derives `<dir>/<name>-<ref>.json` from the output path so each ref gets its own file. */
+function toRefOutputPath(out: string, ref: string): string {
+  const extension = path.extname(out);
+  const slug = ref.replace(/[^A-Za-z0-9._-]+/g, "_");
+  return path.join(path.dirname(out), `${path.basename(out, extension)}-${slug}${extension}`);
+}
+
+async function writeGraph(
+  options: CliOptions,
+  onshapeSourceConfig: OnshapeSourceConfig | undefined,
+  onshapeLibraries: OnshapeLibraryContext | undefined,
+  out: string,
+  gitCommit?: GitCommit
+): Promise<void> {
+  const graph = await buildGraph(
+    options.roots,
+    onshapeSourceConfig,
+    onshapeLibraries,
+    options.cache,
+    gitCommit
+  );
+  if (options.omitTimestamp) {
+    delete graph.generatedAt;
+  } else if (options.generatedAt) {
+    graph.generatedAt = options.generatedAt;
+  }
+  await ensureDirectory(out);
+  // Write then rename so a dev server watching the output never reads a half-written file.
+  const temporaryOut = `${out}.tmp`;
+  await writeFile(temporaryOut, `${JSON.stringify(graph, null, 2)}\n`, "utf8");
+  await rename(temporaryOut, out);
+
+  for (const library of graph.libraries) {
+    console.log(`Indexed root: ${library.root} (${library.label}, ${library.moduleCount} modules)`);
+  }
   console.log(`Nodes: ${graph.elements.nodes.length}`);
   console.log(`Edges: ${graph.elements.edges.length}`);
+  console.log(
+    `Call graph: ${graph.callGraph.nodes.length} symbols, ${graph.callGraph.edges.length} call edges`
+  );
+  console.log(`Features: ${graph.features.length}`);
+  console.log(`Duplicate function clusters: ${graph.duplicates.length}`);
   if (options.onshapeMap && onshapeSourceConfig) {
     const sourceLinkCount = graph.elements.nodes.filter(
       (node) => typeof node.data.sourceUrl === "string" && node.data.sourceUrl.length > 0
@@ -764,7 +1929,61 @@ async function main(): Promise<void> {
     console.log(`Source links: ${sourceLinkCount}`);
     console.log(`Onshape map: ${options.onshapeMap}`);
   }
-  console.log(`Wrote: ${options.out}`);
+  console.log(`Wrote: ${out}`);
+}
+
+/**
+ * Rebuilds the graph after `.fs` changes under the root. Bursts of events (editor saves, git
+ * checkouts) are debounced, and a change during a rebuild queues exactly one more run.
+ */
+function watchForChanges(
+  options: CliOptions,
+  onshapeSourceConfig: OnshapeSourceConfig | undefined
+): void {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let running = false;
+  let pending = false;
+
+  async function rebuild(): Promise<void> {
+    if (running) {
+      pending = true;
+      return;
+    }
+
+    running = true;
+    const startedAt = Date.now();
+    try {
+      // --watch is rejected for onshape: roots, so only local folders are rebuilt here.
+      await writeGraph(options, onshapeSourceConfig, undefined, options.out);
+      console.log(`Rebuilt in ${Date.now() - startedAt}ms`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Rebuild failed: ${message}`);
+    } finally {
+      running = false;
+    }
+
+    if (pending) {
+      pending = false;
+      await rebuild();
+    }
+  }
+
+  for (const library of options.roots) {
+    watch(library.root, { recursive: true }, (_event, fileName) => {
+      if (!fileName || !fileName.toString().endsWith(".fs")) {
+        return;
+      }
+
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        console.log(`Changed: ${library.label}/${fileName.toString()}`);
+        void rebuild();
+      }, WATCH_DEBOUNCE_MS);
+    });
+
+    console.log(`Watching ${library.root} for .fs changes...`);
+  }
 }
 
 main().catch((error: unknown) => {
@@ -0,0 +1,327 @@
+import { createHash } from "node:crypto";
+import { readdir, readFile } from "node:fs/promises";
+import { createServer } from "node:http";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import path from "node:path";
+import { computeOnshapeSignature } from "./onshapeClient.ts";
+
+interface CliOptions {
+  port: number;
+  elementMap: string;
+  sources?: string;
+  accessKey: string;
+  secretKey: string;
+  pageSize: number;
+  throttleEvery: number;
+  failEvery: number;
+  microversion: string;
+}
+
+interface MockElement {
+  id: string;
+  name: string;
+  elementType: string;
+  microversionId?: string;
+  /** Feature Studio source, only known when serving --sources. */
+  contents?: string;
+}
+
+const DEFAULT_PORT = 8787;
+const DEFAULT_ELEMENT_MAP = "tools/onshape-element-map.json";
+const DEFAULT_MICROVERSION = "0f1e2d3c4b5a69788796a5b4";
+const ELEMENTS_PATH = /^\/api\/v\d+\/documents\/d\/[^/]+\/[wvm]\/[^/]+\/elements$/;
+const MICROVERSION_PATH = /^\/api\/v\d+\/documents\/d\/[^/]+\/w\/[^/]+\/currentmicroversion$/;
+const FEATURE_STUDIO_PATH = /^\/api\/v\d+\/featurestudios\/d\/[^/]+\/[wvm]\/[^/]+\/e\/([^/]+)$/;
+
+function printHelp(): void {
+  console.log(`Serve a local stand-in for the Onshape REST API
+
+Usage:
+  npm run onshape-mock -- [--port ${DEFAULT_PORT}]
+                          [--element-map ${DEFAULT_ELEMENT_MAP} | --sources <DIR>]
+                          [--access-key <key>] [--secret-key <key>] [--page-size <n>]
+                          [--throttle-every <n>] [--fail-every <n>] [--microversion <id>]
+
+Serves GET /api/v6/documents/d/<did>/<w|v|m>/<id>/elements for any document, listing one Feature
+Studio per entry of the element map (an onshape-map output file), and
+GET .../w/<wid>/currentmicroversion answering with --microversion. With --sources, the elements
+are the .fs files under DIR instead (named by their relative path) and
+GET /api/v6/featurestudios/d/<did>/<w|v|m>/<id>/e/<eid> returns their contents, so the indexer
+can read an onshape: root from it. Requests must carry a valid
+HMAC signature (or Basic auth) for the configured keys, which default to ONSHAPE_ACCESS_KEY and
+ONSHAPE_SECRET_KEY, else "mock-access" / "mock-secret".
+
+--page-size       Answer with { items, next } pages of this size (0 returns one plain array)
+--throttle-every  Answer every n-th request with 429 and Retry-After: 1
+--fail-every      Answer every n-th request with 503
+
+Run the fetcher against it with:
+  npm run onshape-map -- --api-url http://localhost:${DEFAULT_PORT} --out /tmp/element-map.json
+or, with --sources, the indexer:
+  npm run index -- --root onshape:<did>/w/<wid> --api-url http://localhost:${DEFAULT_PORT}
+`);
+}
+
+function readOptionValue(argv: string[], index: number, name: string): string {
+  const value = argv[index + 1] ?? "";
+  if (!value) {
+    throw new Error(`Missing value for ${name}`);
+  }
+  return value;
+}
+
+function parseCount(value: string, name: string): number {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error(`${name} expects a non-negative integer, got "${value}"`);
+  }
+  return count;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    port: DEFAULT_PORT,
+    elementMap: DEFAULT_ELEMENT_MAP,
+    accessKey: process.env.ONSHAPE_ACCESS_KEY?.trim() || "mock-access",
+    secretKey: process.env.ONSHAPE_SECRET_KEY?.trim() || "mock-secret",
+    pageSize: 100,
+    throttleEvery: 0,
+    failEvery: 0,
+    microversion: DEFAULT_MICROVERSION
+  };
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+
+    if (arg === "--help" || arg === "-h") {
+      printHelp();
+      process.exit(0);
+    }
+
+    const separator = arg.indexOf("=");
+    const name = arg.startsWith("--") && separator > 0 ? arg.slice(0, separator) : arg;
+    let value: string;
+    if (name !== arg) {
+      value = arg.slice(separator + 1);
+    } else {
+      value = readOptionValue(argv, i, arg);
+      i += 1;
+    }
+
+    if (name === "--port") {
+      options.port = parseCount(value, name);
+    } else if (name === "--element-map") {
+      options.elementMap = value;
+    } else if (name === "--sources") {
+      options.sources = value;
+    } else if (name === "--access-key") {
+      options.accessKey = value;
+    } else if (name === "--secret-key") {
+      options.secretKey = value;
+    } else if (name === "--page-size") {
+      options.pageSize = parseCount(value, name);
+    } else if (name === "--throttle-every") {
+      options.throttleEvery = parseCount(value, name);
+    } else if (name === "--fail-every") {
+      options.failEvery = parseCount(value, name);
+    } else if (name === "--microversion") {
+      options.microversion = value;
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return {
+    ...options,
+    elementMap: path.resolve(process.cwd(), options.elementMap),
+    sources: options.sources ? path.resolve(process.cwd(), options.sources) : undefined
+  };
+}
+
+async function loadElements(elementMapPath: string): Promise<MockElement[]> {
+  const raw = await readFile(elementMapPath, "utf8").catch(() => undefined);
+  if (raw === undefined) {
+    throw new Error(`Element map does not exist: ${elementMapPath}`);
+  }
+
+  const parsed: unknown = JSON.parse(raw);
+  const elementsByName =
+    parsed && typeof parsed === "object" && "elementsByName" in parsed
+      ? (parsed as { elementsByName: unknown }).elementsByName
+      : undefined;
+  if (!elementsByName || typeof elementsByName !== "object") {
+    throw new Error(`${elementMapPath} has no elementsByName object`);
+  }
+
+  return Object.entries(elementsByName as Record<string, unknown>)
+    .filter((entry): entry is [string, string] => typeof entry[1] === "string")
+    .map(([name, id]) => ({ id, name, elementType: "FEATURESTUDIO" }));
+}
+
+function toMockId(value: string): string {
+  return createHash("sha256").update(value).digest("hex").slice(0, 24);
+}
+
+/** One Feature Studio per .fs file; ids come from the name, microversions from the contents. */
+async function loadSourceElements(sourcesDir: string): Promise<MockElement[]> {
+  const entries = await readdir(sourcesDir, { recursive: true }).catch(() => undefined);
+  if (!entries) {
+    throw new Error(`Sources folder does not exist: ${sourcesDir}`);
+  }
+
+  const elements: MockElement[] = [];
+  for (const entry of entries.filter((name) => name.endsWith(".fs")).sort()) {
+    const name = entry.split(path.sep).join("/");
+    const contents = await readFile(path.join(sourcesDir, entry), "utf8");
+    elements.push({
+      id: toMockId(name),
+      name,
+      elementType: "FEATURESTUDIO",
+      microversionId: toMockId(contents),
+      contents
+    });
+  }
+  return elements;
+}
+
+/** Returns why the request is not authorized, or null when its credentials check out. */
+function checkAuthorization(
+  request: IncomingMessage,
+  url: URL,
+  options: CliOptions
+): string | null {
+  const authorization = request.headers.authorization ?? "";
+
+  if (authorization.startsWith("Basic ")) {
+    const expected = Buffer.from(`${options.accessKey}:${options.secretKey}`).toString("base64");
+    return authorization.slice("Basic ".length) === expected ? null : "Basic credentials rejected";
+  }
+
+  const match = /^On ([^:]+):HmacSHA256:(.+)$/.exec(authorization);
+  if (!match) {
+    return "Missing or malformed Authorization header";
+  }
+
+  const date = request.headers.date;
+  const nonce = request.headers["on-nonce"];
+  if (typeof date !== "string" || typeof nonce !== "string" || nonce.length < 16) {
+    return "Signed requests need Date and On-Nonce headers";
+  }
+  if (match[1] !== options.accessKey) {
+    return "Unknown access key";
+  }
+
+  const expected = computeOnshapeSignature(options.secretKey, {
+    method: request.method ?? "GET",
+    nonce,
+    date,
+    contentType: request.headers["content-type"] ?? "",
+    url
+  });
+  return match[2] === expected ? null : "Signature mismatch";
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(body));
+}
+
+function servePage(
+  response: ServerResponse,
+  url: URL,
+  elements: MockElement[],
+  pageSize: number
+): void {
+  if (pageSize === 0) {
+    sendJson(response, 200, elements);
+    return;
+  }
+
+  const offset = Number(url.searchParams.get("offset") ?? "0") || 0;
+  const items = elements.slice(offset, offset + pageSize);
+  let next: string | null = null;
+  if (offset + pageSize < elements.length) {
+    const nextUrl = new URL(url);
+    nextUrl.searchParams.set("offset", String(offset + pageSize));
+    next = nextUrl.href;
+  }
+  sendJson(response, 200, { items, next });
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  const elements = options.sources
+    ? await loadSourceElements(options.sources)
+    : await loadElements(options.elementMap);
+  // Listings describe elements; contents are only served by the Feature Studio route.
+  const listing = elements.map(({ contents: _contents, ...element }) => element);
+  let requestCount = 0;
+
+  const server = createServer((request, response) => {
+    requestCount += 1;
+    const url = new URL(request.url ?? "/", `http://${request.headers.host ?? "localhost"}`);
+    const log = (status: number) => console.log(`${status} ${request.method} ${request.url}`);
+
+    if (options.failEvery > 0 && requestCount % options.failEvery === 0) {
+      log(503);
+      sendJson(response, 503, { message: "Injected failure" });
+      return;
+    }
+    if (options.throttleEvery > 0 && requestCount % options.throttleEvery === 0) {
+      log(429);
+      response.setHeader("Retry-After", "1");
+      sendJson(response, 429, { message: "Injected rate limit" });
+      return;
+    }
+
+    const problem = checkAuthorization(request, url, options);
+    if (problem) {
+      log(401);
+      sendJson(response, 401, { message: problem });
+      return;
+    }
+
+    if (request.method === "GET" && MICROVERSION_PATH.test(url.pathname)) {
+      log(200);
+      sendJson(response, 200, { microversion: options.microversion });
+      return;
+    }
+
+    const studioMatch = FEATURE_STUDIO_PATH.exec(url.pathname);
+    if (request.method === "GET" && studioMatch) {
+      const element = elements.find((entry) => entry.id === studioMatch[1]);
+      if (element?.contents === undefined) {
+        log(404);
+        sendJson(response, 404, { message: `No Feature Studio contents for ${studioMatch[1]}` });
+        return;
+      }
+      log(200);
+      sendJson(response, 200, {
+        contents: element.contents,
+        sourceMicroversion: element.microversionId
+      });
+      return;
+    }
+
+    if (request.method !== "GET" || !ELEMENTS_PATH.test(url.pathname)) {
+      log(404);
+      sendJson(response, 404, { message: `No mock for ${request.method} ${url.pathname}` });
+      return;
+    }
+
+    log(200);
+    servePage(response, url, listing, options.pageSize);
+  });
+
+  server.listen(options.port, () => {
+    console.log(
+      `Mock Onshape API on http://localhost:${options.port} (${elements.length} elements)`
+    );
+  });
+}
+
+main().catch((error: unknown) => {
+  const message = error instanceof Error ? error.message : String(error);
+  console.error(`onshape-mock failed: ${message}`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,241 @@
+import { createHmac, randomBytes } from "node:crypto";
+
+export type OnshapeCredentials =
+  | { kind: "hmac"; accessKey: string; secretKey: string }
+  | { kind: "header"; authorization: string };
+
+export interface OnshapeConnection {
+  /** API origin; a local mock server's URL in CI. */
+  baseUrl: string;
+  credentials: OnshapeCredentials;
+  maxRetries: number;
+  /** Told about every retry before the client waits for it. */
+  onRetry?: (message: string) => void;
+}
+
+/** Which state of a document a path points at: a workspace, a version or a microversion. */
+export interface OnshapeDocumentRef {
+  documentId: string;
+  wvm: "w" | "v" | "m";
+  wvmId: string;
+}
+
+export interface OnshapeSignatureFields {
+  method: string;
+  nonce: string;
+  date: string;
+  contentType: string;
+  url: URL;
+}
+
+export const DEFAULT_ONSHAPE_API_URL = "https://cad.onshape.com";
+export const DEFAULT_MAX_RETRIES = 5;
+
+const MAX_REDIRECTS = 5;
+const MAX_PAGES = 1000;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 60_000;
+
+/**
+ * `<document>/<w|v|m>/<id>`, as used in browser URLs (`/documents/...`) and API paths
+ * (`/api/v6/documents/d/...`).
+ */
+export function toOnshapeDocumentPath(ref: OnshapeDocumentRef): string {
+  return `${encodeURIComponent(ref.documentId)}/${ref.wvm}/${encodeURIComponent(ref.wvmId)}`;
+}
+
+/**
+ * An explicit Authorization header (a CLI flag or ONSHAPE_AUTH_HEADER) wins; otherwise requests are
+ * HMAC-signed with ONSHAPE_ACCESS_KEY / ONSHAPE_SECRET_KEY.
+ */
+export function resolveOnshapeCredentials(cliHeader?: string): OnshapeCredentials {
+  if (cliHeader && cliHeader.trim().length > 0) {
+    return { kind: "header", authorization: cliHeader.trim() };
+  }
+
+  const envHeader = process.env.ONSHAPE_AUTH_HEADER?.trim();
+  if (envHeader) {
+    return { kind: "header", authorization: envHeader };
+  }
+
+  const accessKey = process.env.ONSHAPE_ACCESS_KEY?.trim();
+  const secretKey = process.env.ONSHAPE_SECRET_KEY?.trim();
+  if (accessKey && secretKey) {
+    return { kind: "hmac", accessKey, secretKey };
+  }
+
+  throw new Error(
+    "Missing Onshape auth. Set ONSHAPE_AUTH_HEADER, or set ONSHAPE_ACCESS_KEY and ONSHAPE_SECRET_KEY."
+  );
+}
+
+/**
+ * Onshape's API-key signature: an HMAC-SHA256 (keyed by the secret key) over the lowercased
+ * method, nonce, date, content type, path and query, one per line.
+ */
+export function computeOnshapeSignature(secretKey: string, fields: OnshapeSignatureFields): string {
+  const payload = [
+    fields.method,
+    fields.nonce,
+    fields.date,
+    fields.contentType,
+    fields.url.pathname,
+    fields.url.search.replace(/^\?/, ""),
+    ""
+  ]
+    .join("\n")
+    .toLowerCase();
+  return createHmac("sha256", secretKey).update(payload, "utf8").digest("base64");
+}
+
+function createAuthHeaders(credentials: OnshapeCredentials, url: URL): Record<string, string> {
+  if (credentials.kind === "header") {
+    return { Authorization: credentials.authorization };
+  }
+
+  const nonce = randomBytes(16).toString("hex").slice(0, 25);
+  const date = new Date().toUTCString();
+  const signature = computeOnshapeSignature(credentials.secretKey, {
+    method: "GET",
+    nonce,
+    date,
+    contentType: "",
+    url
+  });
+  return {
+    Date: date,
+    "On-Nonce": nonce,
+    Authorization: `On ${credentials.accessKey}:HmacSHA256:${signature}`
+  };
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/** `Retry-After` as seconds or an HTTP date, in milliseconds; undefined when absent or invalid. */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function backoffDelay(attempt: number): number {
+  return Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt);
+}
+
+function sleep(milliseconds: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, milliseconds));
+}
+
+/**
+ * GETs a JSON resource. 429 and 5xx responses (and network failures) are retried with exponential
+ * backoff, or after the server's `Retry-After` when it sends one. Redirects are followed by hand
+ * because a signature only covers the URL it was computed for.
+ */
+export async function fetchOnshapeJson(
+  connection: OnshapeConnection,
+  resource: string | URL
+): Promise<unknown> {
+  let url = new URL(resource, connection.baseUrl);
+  let redirects = 0;
+
+  for (let attempt = 0; ; attempt += 1) {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        headers: { ...createAuthHeaders(connection.credentials, url), Accept: "application/json" },
+        redirect: "manual"
+      });
+    } catch (error) {
+      if (attempt >= connection.maxRetries) {
+        throw error;
+      }
+      const delay = backoffDelay(attempt);
+      const reason = error instanceof Error ? error.message : String(error);
+      connection.onRetry?.(`${url.pathname}: ${reason}; retrying in ${delay} ms`);
+      await sleep(delay);
+      continue;
+    }
+
+    const location = response.headers.get("location");
+    if (response.status >= 300 && response.status < 400 && location) {
+      redirects += 1;
+      if (redirects > MAX_REDIRECTS) {
+        throw new Error(`Too many redirects fetching ${url.pathname}`);
+      }
+      url = new URL(location, url);
+      // A redirect is not a failed attempt.
+      attempt -= 1;
+      continue;
+    }
+
+    if (isRetryableStatus(response.status) && attempt < connection.maxRetries) {
+      await response.body?.cancel();
+      const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+      const delay = Math.min(MAX_RETRY_DELAY_MS, retryAfter ?? backoffDelay(attempt));
+      connection.onRetry?.(`${url.pathname}: HTTP ${response.status}; retrying in ${delay} ms`);
+      await sleep(delay);
+      continue;
+    }
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(
+        `Onshape API request failed (${response.status}) for ${url.pathname}: ${body.slice(0, 300)}`
+      );
+    }
+
+    return response.json();
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Reads every item of a listing. Endpoints answer either with a plain array or with a page
+ * (`{ items, next }`) whose `next` URL is followed until it runs out.
+ */
+export async function fetchOnshapeItems(
+  connection: OnshapeConnection,
+  resource: string
+): Promise<unknown[]> {
+  const items: unknown[] = [];
+  const visited = new Set<string>();
+  let next: URL | undefined = new URL(resource, connection.baseUrl);
+
+  while (next) {
+    if (visited.has(next.href)) {
+      throw new Error(`Onshape pagination loops back to ${next.pathname}${next.search}`);
+    }
+    if (visited.size >= MAX_PAGES) {
+      throw new Error(`Onshape listing has more than ${MAX_PAGES} pages: ${resource}`);
+    }
+    visited.add(next.href);
+
+    const payload = await fetchOnshapeJson(connection, next);
+    if (Array.isArray(payload)) {
+      items.push(...payload);
+      break;
+    }
+    if (!isRecord(payload) || !Array.isArray(payload.items)) {
+      throw new Error("Unexpected Onshape API response: expected an array or a page of items.");
+    }
+
+    items.push(...payload.items);
+    next =
+      typeof payload.next === "string" && payload.next ? new URL(payload.next, next) : undefined;
+  }
+
+  return items;
+}
@@ -0,0 +1,158 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { compareStrings } from "../src/graphTraversal.ts";
+import type { GitBlobFile } from "./gitRepository.ts";
+import { fetchOnshapeItems, fetchOnshapeJson, toOnshapeDocumentPath } from "./onshapeClient.ts";
+import type { OnshapeConnection, OnshapeDocumentRef } from "./onshapeClient.ts";
+
+export interface OnshapeSourceFile extends GitBlobFile {
+  elementId: string;
+  fromCache: boolean;
+}
+
+interface FeatureStudioElement {
+  id: string;
+  name: string;
+  microversionId?: string;
+}
+
+const ROOT_PREFIX = "onshape:";
+
+/** Parses `onshape:<document>/<w|v|m>/<id>`; undefined for anything else (a local path). */
+export function parseOnshapeRoot(value: string): OnshapeDocumentRef | undefined {
+  if (!value.startsWith(ROOT_PREFIX)) {
+    return undefined;
+  }
+
+  const match = /^([^/]+)\/([wvm])\/([^/]+)$/.exec(value.slice(ROOT_PREFIX.length));
+  if (!match) {
+    throw new Error(`Expected ${ROOT_PREFIX}<documentId>/<w|v|m>/<id>, got "${value}"`);
+  }
+  return { documentId: match[1], wvm: match[2] as OnshapeDocumentRef["wvm"], wvmId: match[3] };
+}
+
+export function formatOnshapeRoot(ref: OnshapeDocumentRef): string {
+  return `${ROOT_PREFIX}${ref.documentId}/${ref.wvm}/${ref.wvmId}`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function parseFeatureStudios(payload: unknown[]): FeatureStudioElement[] {
+  const out: FeatureStudioElement[] = [];
+  for (const entry of payload) {
+    if (!isRecord(entry) || entry.elementType !== "FEATURESTUDIO") {
+      continue;
+    }
+
+    const id = typeof entry.id === "string" ? entry.id : "";
+    const name = typeof entry.name === "string" ? entry.name.trim() : "";
+    if (!id || !name) {
+      continue;
+    }
+
+    const microversionId =
+      typeof entry.microversionId === "string" && entry.microversionId
+        ? entry.microversionId
+        : undefined;
+    out.push({ id, name, microversionId });
+  }
+  return out;
+}
+
+/**
+ * Names the file a Feature Studio is indexed under. Studios are named freely in Onshape, so `.fs`
+ * is appended where missing, and a name used twice gets the element id to keep module ids unique.
+ */
+function toSourceFilePath(element: FeatureStudioElement, taken: Set<string>): string {
+  const base = element.name.replace(/\\/g, "/").replace(/^\/+/, "");
+  const filePath = base.endsWith(".fs") ? base : `${base}.fs`;
+  if (!taken.has(filePath)) {
+    return filePath;
+  }
+  return `${filePath.slice(0, -".fs".length)}.${element.id}.fs`;
+}
+
+/**
+ * Where an element's contents are cached, or undefined when they cannot be keyed. Versions and
+ * microversions never change; a workspace element is keyed by the microversion it was listed at.
+ */
+function toCacheFilePath(
+  cacheDir: string,
+  documentRef: OnshapeDocumentRef,
+  element: FeatureStudioElement
+): string | undefined {
+  const state =
+    element.microversionId ??
+    (documentRef.wvm === "w" ? undefined : `${documentRef.wvm}-${documentRef.wvmId}`);
+  if (!state) {
+    return undefined;
+  }
+
+  const safe = (value: string) => value.replace(/[^A-Za-z0-9_-]+/g, "_");
+  const fileName = `${safe(element.id)}-${safe(state)}.fs`;
+  return path.join(cacheDir, safe(documentRef.documentId), fileName);
+}
+
+async function downloadFeatureStudio(
+  connection: OnshapeConnection,
+  documentRef: OnshapeDocumentRef,
+  elementId: string
+): Promise<string> {
+  const payload = await fetchOnshapeJson(
+    connection,
+    `/api/v6/featurestudios/d/${toOnshapeDocumentPath(documentRef)}` +
+      `/e/${encodeURIComponent(elementId)}`
+  );
+  if (!isRecord(payload) || typeof payload.contents !== "string") {
+    throw new Error(`Unexpected Onshape API response for element ${elementId}: no contents.`);
+  }
+  return payload.contents;
+}
+
+/**
+ * Reads every Feature Studio of a document state through the Onshape API. Contents already in
+ * `cacheDir` are not downloaded again; pass no cache directory to always download.
+ */
+export async function readOnshapeFsFiles(
+  connection: OnshapeConnection,
+  documentRef: OnshapeDocumentRef,
+  cacheDir?: string
+): Promise<OnshapeSourceFile[]> {
+  const elements = parseFeatureStudios(
+    await fetchOnshapeItems(
+      connection,
+      `/api/v6/documents/d/${toOnshapeDocumentPath(documentRef)}/elements` +
+        "?elementType=FEATURESTUDIO&withThumbnails=false"
+    )
+  );
+  // Sorted so a duplicated name always gets the same disambiguated file path.
+  const sortKey = (element: FeatureStudioElement) => `${element.name}\u0000${element.id}`;
+  elements.sort((a, b) => compareStrings(sortKey(a), sortKey(b)));
+
+  const files: OnshapeSourceFile[] = [];
+  const taken = new Set<string>();
+  for (const element of elements) {
+    const filePath = toSourceFilePath(element, taken);
+    taken.add(filePath);
+
+    const cacheFile = cacheDir ? toCacheFilePath(cacheDir, documentRef, element) : undefined;
+    const cached = cacheFile
+      ? await readFile(cacheFile, "utf8").catch(() => undefined)
+      : undefined;
+    if (cached !== undefined) {
+      files.push({ filePath, raw: cached, elementId: element.id, fromCache: true });
+      continue;
+    }
+
+    const raw = await downloadFeatureStudio(connection, documentRef, element.id);
+    if (cacheFile) {
+      await mkdir(path.dirname(cacheFile), { recursive: true });
+      await writeFile(cacheFile, raw, "utf8");
+    }
+    files.push({ filePath, raw, elementId: element.id, fromCache: false });
+  }
+
+  return files;
+}
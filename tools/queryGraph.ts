@@ -0,0 +1,367 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { parseGraphJson } from "../src/graphSchema.ts";
+import {
+  buildDirectedAdjacency,
+  compareStrings,
+  expandDirected,
+  findCyclesThrough,
+  findShortestPath
+} from "../src/graphTraversal.ts";
+import type { DirectedNeighbor, TraversalDirection } from "../src/graphTraversal.ts";
+import type { GraphJson, SymbolKind } from "../src/types.ts";
+
+type QueryCommand = "importers" | "deps" | "path" | "exports" | "cycles";
+
+const QUERY_COMMANDS: QueryCommand[] = ["importers", "deps", "path", "exports", "cycles"];
+
+interface CliOptions {
+  command: QueryCommand;
+  args: string[];
+  file: string;
+  transitive: boolean;
+  includeImportEdges: boolean;
+  includeReexportEdges: boolean;
+  json: boolean;
+}
+
+interface QueryContext {
+  graph: GraphJson;
+  nodeIds: Set<string>;
+  outgoing: Map<string, DirectedNeighbor[]>;
+  incoming: Map<string, DirectedNeighbor[]>;
+  options: CliOptions;
+}
+
+interface NeighborhoodResult {
+  query: "importers" | "deps";
+  module: string;
+  direct: string[];
+  indirect?: string[];
+}
+
+interface PathResult {
+  query: "path";
+  from: string;
+  to: string;
+  path: string[] | null;
+}
+
+interface ExportDefinition {
+  module: string;
+  kind?: SymbolKind;
+  line?: number;
+}
+
+interface ExportsResult {
+  query: "exports";
+  symbol: string;
+  definedIn: ExportDefinition[];
+  reexportedBy: string[];
+}
+
+interface CyclesResult {
+  query: "cycles";
+  module: string;
+  cycles: string[][];
+}
+
+type QueryResult = NeighborhoodResult | PathResult | ExportsResult | CyclesResult;
+
+function printHelp(): void {
+  console.log(`Answer dependency questions about a graph.json
+
+Usage:
+  npm run query -- importers <MODULE> [--transitive]   Modules importing MODULE
+  npm run query -- deps <MODULE> [--transitive]        Modules MODULE depends on
+  npm run query -- path <FROM> <TO>                    Shortest dependency path FROM -> TO
+  npm run query -- exports <SYMBOL>                    Modules defining / re-exporting SYMBOL
+  npm run query -- cycles <MODULE>                     Dependency cycles through MODULE
+
+Options:
+  --file <PATH>     Graph file (default: public/graph.json)
+  --transitive      Also list indirect importers / dependencies
+  --no-imports      Ignore import edges
+  --no-reexports    Ignore reexport edges
+  --json            Print the result as JSON
+
+MODULE is a module id (onshape/std/extrude.fs) or any unambiguous path suffix (extrude.fs).
+Traversals use the same code as the viewer's tree and neighbor views.
+`);
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const positional: string[] = [];
+  let file = "public/graph.json";
+  let transitive = false;
+  let includeImportEdges = true;
+  let includeReexportEdges = true;
+  let json = false;
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+
+    if (arg === "--help" || arg === "-h") {
+      printHelp();
+      process.exit(0);
+    }
+
+    if (arg === "--file") {
+      const value = argv[i + 1] ?? "";
+      if (!value) {
+        throw new Error("Missing value for --file <PATH>");
+      }
+      file = value;
+      i += 1;
+      continue;
+    }
+
+    if (arg.startsWith("--file=")) {
+      file = arg.slice("--file=".length);
+      continue;
+    }
+
+    if (arg === "--transitive") {
+      transitive = true;
+      continue;
+    }
+
+    if (arg === "--no-imports") {
+      includeImportEdges = false;
+      continue;
+    }
+
+    if (arg === "--no-reexports") {
+      includeReexportEdges = false;
+      continue;
+    }
+
+    if (arg === "--json") {
+      json = true;
+      continue;
+    }
+
+    if (arg.startsWith("-")) {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+
+    positional.push(arg);
+  }
+
+  const [command, ...args] = positional;
+  if (!command) {
+    throw new Error(`Missing query command (${QUERY_COMMANDS.join(", ")}); see --help`);
+  }
+  if (!(QUERY_COMMANDS as string[]).includes(command)) {
+    throw new Error(`Unknown query command: ${command} (expected ${QUERY_COMMANDS.join(", ")})`);
+  }
+
+  const expectedArgs = command === "path" ? 2 : 1;
+  if (args.length !== expectedArgs) {
+    throw new Error(`${command} expects ${expectedArgs} argument(s); see --help`);
+  }
+
+  return {
+    command: command as QueryCommand,
+    args,
+    file: path.resolve(process.cwd(), file),
+    transitive,
+    includeImportEdges,
+    includeReexportEdges,
+    json
+  };
+}
+
+async function loadContext(options: CliOptions): Promise<QueryContext> {
+  const raw = await readFile(options.file, "utf8").catch(() => undefined);
+  if (raw === undefined) {
+    throw new Error(`Graph file does not exist: ${options.file}`);
+  }
+
+  const graph = parseGraphJson(JSON.parse(raw), options.file);
+  const nodeIds = graph.elements.nodes.map((node) => node.data.id);
+  const edges = graph.elements.edges.map((edge) => edge.data);
+  return {
+    graph,
+    nodeIds: new Set(nodeIds),
+    outgoing: buildDirectedAdjacency(nodeIds, edges, "outgoing"),
+    incoming: buildDirectedAdjacency(nodeIds, edges, "incoming"),
+    options
+  };
+}
+
+function resolveModule(context: QueryContext, query: string): string {
+  if (context.nodeIds.has(query)) {
+    return query;
+  }
+
+  const matches = [...context.nodeIds].filter((id) => id.endsWith(`/${query}`));
+  if (matches.length === 1) {
+    return matches[0];
+  }
+  if (matches.length > 1) {
+    throw new Error(`Module "${query}" is ambiguous: ${matches.sort().join(", ")}`);
+  }
+  throw new Error(`Unknown module: ${query}`);
+}
+
+function reachable(
+  context: QueryContext,
+  seeds: string[],
+  direction: TraversalDirection,
+  maxDepth: number,
+  includeImportEdges = context.options.includeImportEdges
+): Set<string> {
+  const reached = expandDirected(
+    new Set(seeds),
+    maxDepth,
+    direction === "outgoing" ? context.outgoing : context.incoming,
+    context.nodeIds,
+    includeImportEdges,
+    context.options.includeReexportEdges
+  );
+  for (const seed of seeds) {
+    reached.delete(seed);
+  }
+  return reached;
+}
+
+function queryNeighborhood(context: QueryContext, command: "importers" | "deps"): QueryResult {
+  const module = resolveModule(context, context.options.args[0]);
+  const direction: TraversalDirection = command === "importers" ? "incoming" : "outgoing";
+  const direct = reachable(context, [module], direction, 1);
+  const result: NeighborhoodResult = { query: command, module, direct: [...direct].sort() };
+
+  if (context.options.transitive) {
+    const all = reachable(context, [module], direction, Number.POSITIVE_INFINITY);
+    result.indirect = [...all].filter((id) => !direct.has(id)).sort();
+  }
+  return result;
+}
+
+function queryPath(context: QueryContext): PathResult {
+  const from = resolveModule(context, context.options.args[0]);
+  const to = resolveModule(context, context.options.args[1]);
+  return {
+    query: "path",
+    from,
+    to,
+    path: findShortestPath(
+      from,
+      to,
+      context.outgoing,
+      context.options.includeImportEdges,
+      context.options.includeReexportEdges
+    )
+  };
+}
+
+function queryExports(context: QueryContext): ExportsResult {
+  const symbol = context.options.args[0];
+  const definedIn: ExportDefinition[] = [];
+
+  for (const { data } of context.graph.elements.nodes) {
+    if (!data.exports.includes(symbol)) {
+      continue;
+    }
+    const record = data.symbols?.find((item) => item.name === symbol);
+    definedIn.push({ module: data.id, kind: record?.kind, line: record?.startLine });
+  }
+
+  // Anyone importing a module that re-exports the definer sees the symbol too.
+  const definers = definedIn.map((definition) => definition.module);
+  const reexportedBy = reachable(context, definers, "incoming", Number.POSITIVE_INFINITY, false);
+  return {
+    query: "exports",
+    symbol,
+    definedIn: definedIn.sort((a, b) => compareStrings(a.module, b.module)),
+    reexportedBy: [...reexportedBy].sort()
+  };
+}
+
+function queryCycles(context: QueryContext): CyclesResult {
+  const module = resolveModule(context, context.options.args[0]);
+  return {
+    query: "cycles",
+    module,
+    cycles: findCyclesThrough(
+      module,
+      context.outgoing,
+      context.options.includeImportEdges,
+      context.options.includeReexportEdges
+    )
+  };
+}
+
+function runQuery(context: QueryContext): QueryResult {
+  switch (context.options.command) {
+    case "importers":
+    case "deps":
+      return queryNeighborhood(context, context.options.command);
+    case "path":
+      return queryPath(context);
+    case "exports":
+      return queryExports(context);
+    case "cycles":
+      return queryCycles(context);
+  }
+}
+
+function formatList(title: string, ids: string[]): string[] {
+  return [`${title} (${ids.length}):`, ...ids.map((id) => `  ${id}`)];
+}
+
+function formatTextResult(result: QueryResult): string {
+  const lines: string[] = [];
+
+  if (result.query === "importers" || result.query === "deps") {
+    const noun = result.query === "importers" ? "importers" : "dependencies";
+    lines.push(...formatList(`Direct ${noun} of ${result.module}`, result.direct));
+    if (result.indirect) {
+      lines.push(...formatList(`Indirect ${noun}`, result.indirect));
+    }
+  } else if (result.query === "path") {
+    lines.push(
+      result.path
+        ? `Path (${result.path.length - 1} hops):\n  ${result.path.join("\n  -> ")}`
+        : `No dependency path from ${result.from} to ${result.to}`
+    );
+  } else if (result.query === "exports") {
+    if (result.definedIn.length === 0) {
+      lines.push(`No module exports ${result.symbol}`);
+    } else {
+      lines.push(
+        `${result.symbol} is defined in:`,
+        ...result.definedIn.map(
+          (definition) =>
+            `  ${definition.module}` +
+            (definition.kind ? ` (${definition.kind}, L${definition.line})` : "")
+        ),
+        ...formatList("Re-exported by", result.reexportedBy)
+      );
+    }
+  } else if (result.query === "cycles") {
+    lines.push(
+      result.cycles.length === 0
+        ? `No cycles through ${result.module}`
+        : `Cycles through ${result.module} (${result.cycles.length}):`,
+      ...result.cycles.map((cycle) => `  ${cycle.join(" -> ")}`)
+    );
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  const result = runQuery(await loadContext(options));
+  process.stdout.write(
+    options.json ? `${JSON.stringify(result, null, 2)}\n` : formatTextResult(result)
+  );
+}
+
+main().catch((error: unknown) => {
+  const message = error instanceof Error ? error.message : String(error);
+  console.error(`Graph query failed: ${message}`);
+  process.exitCode = 1;
+});
@@ -1,7 +1,33 @@
+import path from "node:path";
 import { defineConfig } from "vite";
+import type { Plugin } from "vite";
 import react from "@vitejs/plugin-react";
 
+// Keep in sync with GRAPH_UPDATE_EVENT in src/App.tsx.
+const GRAPH_UPDATE_EVENT = "fs-graph:update";
+
+/**
+ * Tells the running app when `npm run index -- --watch` rewrites public/graph.json. Vite ignores
+ * public files that no module imports, so without this the app would keep the stale graph.
+ */
+function graphLiveReload(): Plugin {
+  return {
+    name: "graph-live-reload",
+    apply: "serve",
+    configureServer(server) {
+      const graphFile = path.resolve(server.config.publicDir, "graph.json");
+      const notify = (file: string) => {
+        if (path.resolve(file) === graphFile) {
+          server.ws.send({ type: "custom", event: GRAPH_UPDATE_EVENT });
+        }
+      };
+      server.watcher.on("add", notify);
+      server.watcher.on("change", notify);
+    }
+  };
+}
+
 export default defineConfig({
   base: process.env.VITE_BASE_PATH ?? "/",
-  plugins: [react()]
+  plugins: [react(), graphLiveReload()]
 });